@@ -1,222 +1,289 @@
-import React, { useEffect, useState, useCallback, useRef } from 'react';
-import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert, Platform, Share, TextInput, Linking } from 'react-native';
 import {
   Camera,
-  useCameraPermission,
   useCameraDevices,
-  CameraFormat,
   PhotoFile,
+  VideoFile,
   CameraDevice,
+  CameraRuntimeError,
+  Code,
+  CodeScannerFrame,
+  CodeType,
+  Orientation,
+  useCodeScanner,
 } from 'react-native-vision-camera';
+import RNFS from 'react-native-fs';
+import { version as APP_VERSION } from './package.json';
+import { buildCapabilityReport } from './src/camera/capabilityReport';
+import { STABLE_SESSION_MS, getErrorCode, getErrorGuidance, getRetryDelay, isAdvisoryError, isRecoverableError } from './src/camera/cameraErrors';
+import { getDefaultPhotoFormat } from './src/camera/cameraSession';
+import { CameraFormat } from './src/camera/types';
+import {
+  CaptureOptions,
+  DEFAULT_CAPTURE_OPTIONS,
+  describeCaptureOptions,
+  getCaptureCapabilities,
+  getEffectiveCaptureOptions,
+} from './src/camera/captureOptions';
+import { CompositionSettings, DEFAULT_COMPOSITION_SETTINGS, getUprightAspectRatio } from './src/camera/compositionGuides';
+import { ComparisonShot, ComparisonSlot, NO_PINNED_FORMATS, PinnedFormats } from './src/camera/formatBrowser';
+import { DEFAULT_CODE_TYPES, SCANNABLE_CODE_TYPES, createScanDeduplicator, getCodeTypeLabel } from './src/camera/codeScanning';
+import { describeDeviceChanges, diffDevices, isExternalDevice } from './src/camera/deviceChanges';
+import { getDeviceLabels } from './src/camera/deviceNaming';
+import { DEFAULT_SHOOTING_SETTINGS, ShootingSettings, describeSequenceReport, describeShootingSettings } from './src/camera/shootingModes';
+import { selectFormatForDevice } from './src/camera/formatSelection';
+import { describeLensShot, getCameraOutputTargets, getLensLabel, listLensTargets } from './src/camera/multiCamCapture';
+import { getIconRotation, orientRatioKey, orientResolution, toScreenSize } from './src/camera/orientation';
+import { buildResolutionCatalog, describeResolutionOption } from './src/camera/resolutionCatalog';
+import { getFrameRatesForResolution, getVideoResolutions } from './src/camera/videoOptions';
+import { clampZoom, formatDisplayZoom, getZoomPresets } from './src/camera/zoom';
+import CaptureOptionsBar from './src/components/CaptureOptionsBar';
+import CodeBoundingBoxes from './src/components/CodeBoundingBoxes';
+import CompositionMenu from './src/components/CompositionMenu';
+import CompositionOverlay from './src/components/CompositionOverlay';
+import DiagnosticsScreen from './src/components/DiagnosticsScreen';
+import FormatBrowserScreen from './src/components/FormatBrowserScreen';
+import FormatComparisonScreen from './src/components/FormatComparisonScreen';
+import PermissionsScreen from './src/components/PermissionsScreen';
+import SessionTimingOverlay from './src/components/SessionTimingOverlay';
+import FocusExposureControls from './src/components/FocusExposureControls';
+import FrameStatisticsOverlay from './src/components/FrameStatisticsOverlay';
+import GalleryScreen from './src/components/GalleryScreen';
+import OutputSettingsPanel from './src/components/OutputSettingsPanel';
+import ScanHistoryScreen from './src/components/ScanHistoryScreen';
+import ShootingModePanel from './src/components/ShootingModePanel';
+import Toast from './src/components/Toast';
+import { useCameraSession } from './src/hooks/useCameraSession';
+import { NewCapture, useCaptureHistory } from './src/hooks/useCaptureHistory';
+import { useDiagnosticsLog } from './src/hooks/useDiagnosticsLog';
+import { useFormatComparison } from './src/hooks/useFormatComparison';
+import { useFrameStatistics } from './src/hooks/useFrameStatistics';
+import { useHorizonLevel } from './src/hooks/useHorizonLevel';
+import { useIsForeground } from './src/hooks/useIsForeground';
+import { useLensSetCapture } from './src/hooks/useLensSetCapture';
+import { useOutputProfiles } from './src/hooks/useOutputProfiles';
+import { usePermissions } from './src/hooks/usePermissions';
+import { usePinchToZoom } from './src/hooks/usePinchToZoom';
+import { useScanHistory } from './src/hooks/useScanHistory';
+import { useSessionTiming } from './src/hooks/useSessionTiming';
+import { FinishedPhoto, useShootingSequence } from './src/hooks/useShootingSequence';
+import { useToast } from './src/hooks/useToast';
+import { FRAME_ANALYSERS } from './src/processing/frameAnalysers';
+import { stampPhotoFile } from './src/processing/metadataStamping';
+import { describeOutputFormat, describeOutputSettings, getContainerSupport, getEffectiveOutputSettings } from './src/processing/outputSettings';
+import { MetadataStamp, parsePhotoMetadata } from './src/processing/photoMetadata';
+import { ProcessedPhoto, processPhoto } from './src/processing/photoProcessing';
+import { writeCapabilityReport } from './src/storage/capabilityReportFiles';
+import { writeDiagnosticsLog } from './src/storage/diagnosticsLog';
+import { CameraSettings, loadCameraSettings, saveCameraSettings } from './src/storage/cameraSettings';
+import { createCaptureId } from './src/storage/captureHistory';
+import { loadOperatorTag, saveOperatorTag } from './src/storage/metadataSettings';
+import { DiagnosticsLevel, describeFormat } from './src/utils/diagnostics';
+import { formatDuration, formatFileSize } from './src/utils/formatting';
+import { formatResolution, parseAspectRatioKey, parseResolutionString } from './src/utils/resolution';
 
-type CameraOutputTargets = {
-  logicalCamera: CameraDevice;
-  firstPhysicalCamera?: CameraDevice;
-  secondPhysicalCamera?: CameraDevice;
-};
-
-const parseResolutionString = (res: string) => {
-  const [width, height] = res.split('x').map(Number);
-  return { width, height };
-};
+type CaptureMode = 'photo' | 'video' | 'scan';
 
-const predefinedResolutionsByRatio: { [key: string]: string[] } = {
-  'Square (1:1)': [
-    "720x720", "960x960", "1080x1080", "1200x1200", "1280x1280",
-    "1440x1440", "1600x1600", "1920x1920", "2048x2048",
-    "2160x2160", "2560x2560", "3000x3000", "3024x3024"
-  ].sort((a, b) => {
-    const resA = parseResolutionString(a);
-    const resB = parseResolutionString(b);
-    if (resA.width !== resB.width) return resA.width - resB.width;
-    return resA.height - resB.height;
-  }),
-
-  '4x3 Landscape (4:3)': [
-    "960x720", "1280x960", "1440x1080", "1600x1200",
-    "2048x1536", "2448x1836", "2560x1920", "2880x2160", "3024x2268"
-  ].sort((a, b) => {
-    const resA = parseResolutionString(a);
-    const resB = parseResolutionString(b);
-    if (resA.width !== resB.width) return resA.width - resB.width;
-    return resA.height - resB.height;
-  }),
-
-  '3x4 Portrait (3:4)': [
-    "720x960", "960x1280", "1080x1440", "1200x1600",
-    "1536x2048", "1836x2448", "1920x2560", "2160x2880",
-    "2268x3024", "3000x4000", "3024x4032"
-  ].sort((a, b) => {
-    const resA = parseResolutionString(a);
-    const resB = parseResolutionString(b);
-    if (resA.width !== resB.width) return resA.width - resB.width;
-    return resA.height - resB.height;
-  }),
-
-  '16x9 Landscape (16:9)': [
-    "1280x720", "1600x900", "1920x1080", "2160x1215",
-    "2560x1440", "3024x1701"
-  ].sort((a, b) => {
-    const resA = parseResolutionString(a);
-    const resB = parseResolutionString(b);
-    if (resA.width !== resB.width) return resA.width - resB.width;
-    return resA.height - resB.height;
-  }),
-
-  '9x16 Portrait (9:16)': [
-    "720x1280", "900x1600", "1080x1920", "1215x2160",
-    "1440x2560", "1701x3024", "2160x3840", "2268x4032"
-  ].sort((a, b) => {
-    const resA = parseResolutionString(a);
-    const resB = parseResolutionString(b);
-    if (resA.width !== resB.width) return resA.width - resB.width;
-    return resA.height - resB.height;
-  })
+type CameraInfo = {
+  name: string;
+  device: CameraDevice;
+  displayResolution: string;
+  photoDisplayResolution: string;
 };
 
-const findBestFormatForResolution = (device: CameraDevice, targetResolution: { width: number; height: number }, targetAspectRatioKey: string): CameraFormat | undefined => {
-  if (!device) return undefined;
-
-  const targetAspectRatio = targetResolution.width / targetResolution.height;
-  let bestFormat: CameraFormat | undefined = undefined;
-  let maxScore = -1;
-
-  for (const format of device.formats) {
-    const formatAspectRatio = format.photoWidth / format.photoHeight;
-    const aspectRatioScore = 1 / (1 + Math.abs(targetAspectRatio - formatAspectRatio)); 
-
-    const resolutionDiff = Math.abs((format.photoWidth * format.photoHeight) - (targetResolution.width * targetResolution.height));
-    const resolutionScore = (format.photoWidth >= targetResolution.width && format.photoHeight >= targetResolution.height)
-      ? 1 / (1 + resolutionDiff / 100000)
-      : 0;
-
-    let fovScore = 1.0;
-    if (device.physicalDevices.includes('wide-angle-camera') && (device.physicalDevices.includes('ultra-wide-angle-camera') || device.physicalDevices.includes('telephoto-camera'))) {
-      if (format.fieldOfView >= 65 && format.fieldOfView <= 95) {
-        fovScore = 1.5;
-      } else {
-        fovScore = 0.8;
-      }
-    }
-
-    const totalScore = (aspectRatioScore * 2 + resolutionScore * 1.5) * fovScore;
-
-    if (totalScore > maxScore) {
-      maxScore = totalScore;
-      bestFormat = format;
-    }
-  }
+const DEFAULT_VIDEO_RESOLUTION = { width: 1920, height: 1080 };
+const DEFAULT_VIDEO_FPS = 30;
+const CODE_BOX_TIMEOUT_MS = 500;
+// Not every configuration change restarts the preview, so don't wait forever for it.
+const PREVIEW_WAIT_TIMEOUT_MS = 3000;
 
-  return bestFormat;
+const selectPhotoFormat = (device: CameraDevice, resolutionString: string, ratioKey: string | null) => {
+  const targetResolution = parseResolutionString(resolutionString);
+  return selectFormatForDevice(device, {
+    minPhotoSize: targetResolution,
+    aspectRatio: (ratioKey && parseAspectRatioKey(ratioKey)) || targetResolution.width / targetResolution.height,
+    aspectRatioMatch: 'exact',
+    fovRange: device.isMultiCam ? [65, 95] : undefined,
+  });
 };
 
-const processPhoto = async (photo: PhotoFile, targetResolution: { width: number; height: number }) => {
-  console.log('Starting post-processing for photo:', photo.path);
-  console.log(`Original dimensions: ${photo.width}x${photo.height}`);
-  console.log(`Target dimensions: ${targetResolution.width}x${targetResolution.height}`);
+const selectVideoFormat = (device: CameraDevice, resolutionString: string | null, fps: number) =>
+  selectFormatForDevice(device, {
+    minVideoSize: resolutionString ? parseResolutionString(resolutionString) : DEFAULT_VIDEO_RESOLUTION,
+    fpsRange: [fps, fps],
+    fovRange: device.isMultiCam ? [65, 95] : undefined,
+  });
 
-  if (photo.width < targetResolution.width || photo.height < targetResolution.height) {
-    Alert.alert(
-      'Processing Warning',
-      `Cannot crop photo to ${targetResolution.width}x${targetResolution.height} because the original photo (${photo.width}x${photo.height}) is smaller. The original photo will be used.`
-    );
-    return photo.path;
-  }
-
-  try {
-    Alert.alert(
-      'Processing Complete (Simulated)',
-      `Photo has been processed to ${targetResolution.width}x${targetResolution.height}.\n(This requires an image processing library to work for real)`
-    );
-    return photo.path;
-  } catch (error) {
-    console.error('Error during photo processing:', error);
-    Alert.alert('Processing Error', 'Failed to process the photo.');
-    return photo.path;
-  }
+// Runs from an alert button, so a failure has nowhere to propagate to.
+const shareExportedFile = (path: string) => {
+  Share.share({ url: `file://${path}`, message: `file://${path}` }).catch((e: any) => {
+    console.error('Failed to share file', e);
+    Alert.alert('Error', `Failed to share file: ${e.message}`);
+  });
 };
 
 function App(): React.JSX.Element {
-  const { hasPermission, requestPermission } = useCameraPermission();
+  const { statuses: permissionStatuses, refused: refusedPermissions, request: requestPermission } = usePermissions();
+  const hasPermission = permissionStatuses.camera === 'granted';
+  const hasMicrophonePermission = permissionStatuses.microphone === 'granted';
+  const hasLocationPermission = permissionStatuses.location === 'granted';
+  // Onboarding is shown until camera access is granted, and can be reopened from settings.
+  const [showPermissions, setShowPermissions] = useState(!hasPermission);
   const devices = useCameraDevices();
 
   const camera = useRef<Camera>(null);
 
-  const [detectedCamerasInfo, setDetectedCamerasInfo] = useState<{ name: string; device: any; displayResolution: string; photoDisplayResolution: string; }[]>([]);
-  const [selectedDevice, setSelectedDevice] = useState<any>(null);
+  const {
+    session,
+    selectDevice,
+    loseDevice,
+    selectFormat,
+    startCapture,
+    startProcessing,
+    finishCapture,
+    failSession,
+    retrySession,
+  } = useCameraSession(hasPermission);
+  const {
+    device: selectedDevice,
+    format: currentCameraFormat,
+    photoResolution: selectedResolutionString,
+    aspectRatioKey: selectedAspectRatioKey,
+    maxPhotoResolution: maxPhotoResolutionForDevice,
+  } = session;
+  const isSessionBusy = session.status === 'capturing' || session.status === 'processing';
+
+  const [detectedCamerasInfo, setDetectedCamerasInfo] = useState<CameraInfo[]>([]);
   const [showDeviceList, setShowDeviceList] = useState(false);
   const [showResolutionSelection, setShowResolutionSelection] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showScanHistory, setShowScanHistory] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showSessionTiming, setShowSessionTiming] = useState(false);
+  const [showFormatBrowser, setShowFormatBrowser] = useState(false);
+  const [pinnedFormats, setPinnedFormats] = useState<PinnedFormats>(NO_PINNED_FORMATS);
+  const [comparisonShots, setComparisonShots] = useState<ComparisonShot[] | null>(null);
+  const previewWaiters = useRef<(() => void)[]>([]);
+  const [lensSetEnabled, setLensSetEnabled] = useState(false);
+  const isForeground = useIsForeground();
 
-  const [currentCameraFormat, setCurrentCameraFormat] = useState<CameraFormat | undefined>(undefined);
   const [currentZoom, setCurrentZoom] = useState<number>(1);
+  const [exposure, setExposure] = useState(0);
+  const [isFocusLocked, setIsFocusLocked] = useState(false);
+  const [captureOptions, setCaptureOptions] = useState<CaptureOptions>(DEFAULT_CAPTURE_OPTIONS);
   
-  const [selectedResolutionString, setSelectedResolutionString] = useState<string | null>(null);
-  const [maxPhotoResolutionForDevice, setMaxPhotoResolutionForDevice] = useState<{ width: number, height: number } | null>(null);
+  // The ratio group open in the resolution picker, before a resolution in it is chosen.
+  const [expandedRatioKey, setExpandedRatioKey] = useState<string | null>(null);
+  const [showStandardResolutions, setShowStandardResolutions] = useState(false);
+  // The UI is locked to portrait; photos follow how the phone is actually held.
+  const [deviceOrientation, setDeviceOrientation] = useState<Orientation>('portrait');
+  const [followDeviceOrientation, setFollowDeviceOrientation] = useState(true);
+  const captureOrientation = followDeviceOrientation ? deviceOrientation : null;
+  const captureResolutionString = useMemo(
+    () =>
+      selectedResolutionString && captureOrientation
+        ? formatResolution(orientResolution(parseResolutionString(selectedResolutionString), captureOrientation))
+        : selectedResolutionString,
+    [selectedResolutionString, captureOrientation]
+  );
+  const captureRatioKey =
+    selectedAspectRatioKey && captureOrientation ? orientRatioKey(selectedAspectRatioKey, captureOrientation) : selectedAspectRatioKey;
+  const iconRotationStyle = useMemo(
+    () => ({ transform: [{ rotate: `${getIconRotation(deviceOrientation)}deg` }] }),
+    [deviceOrientation]
+  );
+
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('photo');
+  const [selectedVideoResolution, setSelectedVideoResolution] = useState<string | null>(null);
+  const [selectedFps, setSelectedFps] = useState<number>(DEFAULT_VIDEO_FPS);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [shootingSettings, setShootingSettings] = useState<ShootingSettings>(DEFAULT_SHOOTING_SETTINGS);
+  const [showShootingModePanel, setShowShootingModePanel] = useState(false);
+  const [showOutputPanel, setShowOutputPanel] = useState(false);
+  const { profiles: outputProfiles, activeProfile: outputProfile, selectProfile: selectOutputProfile, updateActiveSettings: updateOutputSettings } = useOutputProfiles();
+  const containerSupport = useMemo(
+    () => (selectedDevice ? getContainerSupport(selectedDevice, Platform.OS) : null),
+    [selectedDevice]
+  );
+  const outputSettings = useMemo(
+    () => (containerSupport ? getEffectiveOutputSettings(outputProfile.settings, containerSupport) : outputProfile.settings),
+    [outputProfile, containerSupport]
+  );
+
+  const { captures, addCapture, deleteCapture } = useCaptureHistory();
+
+  const [selectedCodeTypes, setSelectedCodeTypes] = useState<CodeType[]>(DEFAULT_CODE_TYPES);
+  const [scannedCodes, setScannedCodes] = useState<{ codes: Code[]; frame: CodeScannerFrame } | null>(null);
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
+  const isNewScan = useRef(createScanDeduplicator());
+  const clearCodesTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const { scans, addScan, clearScans } = useScanHistory();
+
+  const [showFrameStatistics, setShowFrameStatistics] = useState(false);
+  const { statistics: frameStatistics, frameProcessor } = useFrameStatistics(FRAME_ANALYSERS);
+  const [compositionSettings, setCompositionSettings] = useState<CompositionSettings>(DEFAULT_COMPOSITION_SETTINGS);
+  const [showCompositionMenu, setShowCompositionMenu] = useState(false);
+
+  const [storedSettings, setStoredSettings] = useState<CameraSettings | null | undefined>(undefined);
+  const [operatorTag, setOperatorTag] = useState('');
+  const pendingSettingsRestore = useRef<CameraSettings | null>(null);
+  const previousDevices = useRef<{ devices: CameraDevice[]; labels: { [deviceId: string]: string } } | null>(null);
+  const { toastMessage, showToast } = useToast();
+  const { entries: diagnostics, log: logDiagnostics, clear: clearDiagnostics } = useDiagnosticsLog();
+  // Automatic restarts after recoverable session errors.
+  const retryAttempts = useRef(0);
+  const sessionStartedAt = useRef<number | null>(null);
+  const retryTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [pendingRetry, setPendingRetry] = useState<number | null>(null);
+
+  const deviceLabels = useMemo(() => getDeviceLabels(devices), [devices]);
 
   const backCamera = devices.find(d => d.position === 'back' && d.physicalDevices.includes('wide-angle-camera'));
   const frontCamera = devices.find(d => d.position === 'front' && d.physicalDevices.includes('wide-angle-camera'));
 
   useEffect(() => {
-    if (!hasPermission) {
-      requestPermission();
-    }
-  }, [hasPermission, requestPermission]);
+    loadOperatorTag()
+      .then(setOperatorTag)
+      .catch(e => console.error('Failed to load operator tag', e));
+  }, []);
+
+  const updateOperatorTag = useCallback((tag: string) => {
+    setOperatorTag(tag);
+    saveOperatorTag(tag.trim()).catch(e => console.error('Failed to save operator tag', e));
+  }, []);
+
+  useEffect(() => {
+    loadCameraSettings()
+      .then(setStoredSettings)
+      .catch(e => {
+        console.error('Failed to load camera settings', e);
+        setStoredSettings(null);
+      });
+  }, []);
 
   useEffect(() => {
     if (hasPermission && devices.length > 0) {
-      const foundCameras: { name: string; device: any; displayResolution: string; photoDisplayResolution: string; }[] = [];
+      const foundCameras: CameraInfo[] = [];
 
       devices.forEach(device => {
-        let deviceName = device.name || device.id; 
-        
-        if (device.position === 'front') {
-            if (device.physicalDevices.includes('ultra-wide-angle-camera')) {
-                deviceName = 'Front Ultra Wide Camera';
-            } else if (device.name.includes('TrueDepth') || device.id.includes('TrueDepth')) {
-                deviceName = 'Front TrueDepth Camera';
-            } else {
-                deviceName = 'Front Camera';
-            }
-        } else if (device.position === 'back') {
-            if (device.physicalDevices.includes('ultra-wide-angle-camera') && device.physicalDevices.includes('wide-angle-camera') && device.physicalDevices.includes('telephoto-camera')) {
-                deviceName = 'Back Triple Camera';
-            } else if (device.physicalDevices.includes('ultra-wide-angle-camera') && device.physicalDevices.includes('wide-angle-camera')) {
-                deviceName = 'Back Dual Wide Camera';
-            } else if (device.physicalDevices.includes('wide-angle-camera') && device.physicalDevices.includes('telephoto-camera')) {
-                deviceName = 'Back Dual Camera';
-            } else if (device.physicalDevices.includes('telephoto-camera')) {
-                deviceName = 'Back Telephoto Camera';
-            } else if (device.physicalDevices.includes('ultra-wide-angle-camera')) {
-                deviceName = 'Back Ultra Wide Camera';
-            } else {
-                deviceName = 'Back Camera';
-            }
-        }
+        const deviceName = deviceLabels[device.id] || device.name || device.id;
 
-        const highestVideoResFormatForDisplay = device.formats
+        const highestVideoResFormatForDisplay = [...device.formats]
             .sort((a: CameraFormat, b: CameraFormat) => {
                 const areaA = a.videoWidth * a.videoHeight;
                 const areaB = b.videoWidth * b.videoHeight;
                 if (areaA !== areaB) return areaB - areaA;
-                return b.maxFrameRate - a.maxFrameRate;
+                return b.maxFps - a.maxFps;
             })[0];
         
         const videoDisplayResString = highestVideoResFormatForDisplay 
             ? `${highestVideoResFormatForDisplay.videoWidth}x${highestVideoResFormatForDisplay.videoHeight}` 
             : 'Unknown';
 
-        const highestPhotoResFormatForDisplay = device.formats
-            .filter((f: CameraFormat) => f.photoWidth && f.photoHeight)
-            .sort((a: CameraFormat, b: CameraFormat) => {
-                const areaA = (a.photoWidth || 0) * (a.photoHeight || 0);
-                const areaB = (b.photoWidth || 0) * (b.photoHeight || 0);
-                if (areaA !== areaB) return areaB - areaA;
-                const videoAreaA = a.videoWidth * a.videoHeight;
-                const videoAreaB = b.videoWidth * b.videoHeight;
-                if (videoAreaA !== videoAreaB) return videoAreaB - videoAreaA;
-                return (b.maxFrameRate || 0) - (a.maxFrameRate || 0);
-            })[0];
-        
+        const highestPhotoResFormatForDisplay = getDefaultPhotoFormat(device);
+
         const photoDisplayResString = highestPhotoResFormatForDisplay
             ? `${highestPhotoResFormatForDisplay.photoWidth}x${highestPhotoResFormatForDisplay.photoHeight}`
             : 'N/A';
@@ -229,7 +296,7 @@ function App(): React.JSX.Element {
         });
       });
 
-      const uniqueCameraInfo: { name: string; device: any; displayResolution: string; photoDisplayResolution: string; }[] = [];
+      const uniqueCameraInfo: CameraInfo[] = [];
       const seenDeviceIds = new Set<string>();
 
       foundCameras.forEach(info => {
@@ -241,115 +308,705 @@ function App(): React.JSX.Element {
       
       setDetectedCamerasInfo(uniqueCameraInfo);
       
-      if (!selectedDevice) {
-        const defaultDevice = backCamera || frontCamera || devices[0];
-        setSelectedDevice(defaultDevice);
+      if (session.status === 'discovering' && !selectedDevice && storedSettings !== undefined) {
+        const storedDevice = storedSettings ? devices.find(d => d.id === storedSettings.deviceId) : undefined;
+        const defaultDevice = storedDevice || backCamera || frontCamera || devices[0];
+        pendingSettingsRestore.current = storedDevice ? storedSettings : null;
+        selectDevice(defaultDevice);
+
+        if (storedSettings && !storedDevice) {
+          Alert.alert(
+            'Camera Settings',
+            `The camera used last time (${storedSettings.deviceName}) is no longer available. Switched to ${deviceLabels[defaultDevice.id] || defaultDevice.id} with default settings.`
+          );
+        }
       }
     }
-  }, [hasPermission, devices, selectedDevice, backCamera, frontCamera]);
+  }, [hasPermission, devices, deviceLabels, session.status, selectedDevice, backCamera, frontCamera, storedSettings, selectDevice]);
 
   useEffect(() => {
-    if (selectedDevice) {
-        const highestResFormat = [...selectedDevice.formats]
-            .filter((f: CameraFormat) => f.photoWidth && f.photoHeight)
-            .sort((a: CameraFormat, b: CameraFormat) => (b.photoWidth * b.photoHeight) - (a.photoWidth * a.photoHeight))[0];
-
-        if (highestResFormat) {
-            setMaxPhotoResolutionForDevice({
-                width: highestResFormat.photoWidth,
-                height: highestResFormat.photoHeight,
-            });
+    const previous = previousDevices.current;
+    if (!previous) {
+      // The first non-empty list is the initial enumeration, not a hot-plug.
+      if (devices.length > 0) {
+        previousDevices.current = { devices, labels: deviceLabels };
+      }
+      return;
+    }
+    previousDevices.current = { devices, labels: deviceLabels };
+
+    const changes = diffDevices(previous.devices, devices);
+    if (changes.added.length === 0 && changes.removed.length === 0) {
+      return;
+    }
+    const message = describeDeviceChanges(changes, d => deviceLabels[d.id] || previous.labels[d.id] || d.id);
+
+    if (!selectedDevice || !changes.removed.some(d => d.id === selectedDevice.id)) {
+      showToast(message);
+      return;
+    }
+
+    const fallbackDevice = backCamera || frontCamera || devices[0];
+    if (fallbackDevice) {
+      // Re-resolve the previous resolution choice on the fallback camera through
+      // the same path used to restore saved settings.
+      pendingSettingsRestore.current = {
+        deviceId: fallbackDevice.id,
+        deviceName: deviceLabels[fallbackDevice.id] || fallbackDevice.id,
+        aspectRatioKey: selectedAspectRatioKey,
+        resolution: selectedResolutionString,
+        zoom: fallbackDevice.neutralZoom || 1,
+      };
+      showToast(`${message}\nSwitched to ${deviceLabels[fallbackDevice.id] || fallbackDevice.id}`);
+    } else {
+      showToast(`${message}\nNo other camera is available.`);
+    }
+    loseDevice();
+    if (fallbackDevice) {
+      selectDevice(fallbackDevice);
+    }
+  }, [devices, deviceLabels, selectedDevice, backCamera, frontCamera, selectedAspectRatioKey, selectedResolutionString, showToast, loseDevice, selectDevice]);
+
+  useEffect(() => {
+    if (!selectedDevice) {
+      setCurrentZoom(1);
+      return;
+    }
+    setCurrentZoom(selectedDevice.neutralZoom || 1);
+    setExposure(0);
+    setIsFocusLocked(false);
+    setExpandedRatioKey(null);
+
+    const restore = pendingSettingsRestore.current;
+    if (restore && restore.deviceId === selectedDevice.id) {
+      pendingSettingsRestore.current = null;
+      setCurrentZoom(clampZoom(restore.zoom, selectedDevice.minZoom, selectedDevice.maxZoom));
+
+      if (restore.resolution) {
+        const selection = selectPhotoFormat(selectedDevice, restore.resolution, restore.aspectRatioKey);
+        if (selection && !selection.relaxed.includes('minPhotoSize')) {
+          selectFormat(selection.format, restore.resolution, restore.aspectRatioKey);
         } else {
-            setMaxPhotoResolutionForDevice(null);
+          const defaultFormat = getDefaultPhotoFormat(selectedDevice);
+          Alert.alert(
+            'Camera Settings',
+            `The previously selected resolution (${restore.resolution}) is not available on this camera. Using ${defaultFormat ? `${defaultFormat.photoWidth}x${defaultFormat.photoHeight}` : 'the default format'} instead.`
+          );
         }
+      }
+    }
+  }, [selectedDevice, selectFormat]);
 
-      const highestPhotoFormat = selectedDevice.formats
-          .filter((f: CameraFormat) => f.photoWidth && f.photoHeight)
-          .sort((a: CameraFormat, b: CameraFormat) => {
-              const areaA = (a.photoWidth || 0) * (a.photoHeight || 0);
-              const areaB = (b.photoWidth || 0) * (b.photoHeight || 0);
-              if (areaA !== areaB) return areaB - areaA;
-              const videoAreaA = a.videoWidth * a.videoHeight;
-              const videoAreaB = b.videoWidth * b.videoHeight;
-              if (videoAreaA !== videoAreaB) return videoAreaB - videoAreaA;
-              return (b.maxFrameRate || 0) - (a.maxFrameRate || 0);
-          })[0];
-
-      if (highestPhotoFormat) {
-          setCurrentCameraFormat(highestPhotoFormat);
-          setSelectedResolutionString(`${highestPhotoFormat.photoWidth}x${highestPhotoFormat.photoHeight}`);
-      } else {
-          setCurrentCameraFormat(undefined);
+  useEffect(() => {
+    if (!selectedDevice || storedSettings === undefined || pendingSettingsRestore.current) {
+      return;
+    }
+    saveCameraSettings({
+      deviceId: selectedDevice.id,
+      deviceName: deviceLabels[selectedDevice.id] || selectedDevice.id,
+      aspectRatioKey: selectedAspectRatioKey,
+      resolution: selectedResolutionString,
+      zoom: currentZoom,
+    }).catch(e => console.error('Failed to save camera settings', e));
+  }, [selectedDevice, deviceLabels, selectedAspectRatioKey, selectedResolutionString, currentZoom, storedSettings]);
+
+  useEffect(() => {
+    if (captureMode !== 'video' || !selectedDevice) {
+      return;
+    }
+    const selection = selectVideoFormat(selectedDevice, selectedVideoResolution, selectedFps);
+    if (selection) {
+      selectFormat(selection.format);
+    }
+  }, [captureMode, selectedDevice, selectedVideoResolution, selectedFps, selectFormat]);
+
+  useEffect(() => {
+    if (recordingStartedAt == null) {
+      setRecordingElapsed(0);
+      return;
+    }
+    const interval = setInterval(() => {
+      setRecordingElapsed((Date.now() - recordingStartedAt) / 1000);
+    }, 500);
+    return () => clearInterval(interval);
+  }, [recordingStartedAt]);
+
+  const captureCapabilities = useMemo(
+    () => (selectedDevice ? getCaptureCapabilities(selectedDevice, currentCameraFormat ?? undefined) : null),
+    [selectedDevice, currentCameraFormat],
+  );
+  const effectiveCaptureOptions = useMemo(
+    () => (captureCapabilities ? getEffectiveCaptureOptions(captureOptions, captureCapabilities) : DEFAULT_CAPTURE_OPTIONS),
+    [captureOptions, captureCapabilities],
+  );
+
+  const zoomLabel = selectedDevice ? formatDisplayZoom(currentZoom, selectedDevice.neutralZoom) : '1x';
+
+  const handleZoomChange = useCallback((zoom: number) => {
+    if (selectedDevice) {
+      setCurrentZoom(clampZoom(zoom, selectedDevice.minZoom, selectedDevice.maxZoom));
+    }
+  }, [selectedDevice]);
+
+  const zoomGestureHandlers = usePinchToZoom(
+    currentZoom,
+    selectedDevice?.minZoom ?? 1,
+    selectedDevice?.maxZoom ?? 1,
+    handleZoomChange,
+  );
+
+  useEffect(() => () => {
+    if (clearCodesTimeout.current) {
+      clearTimeout(clearCodesTimeout.current);
+    }
+  }, []);
+
+  const onCodeScanned = useCallback((codes: Code[], frame: CodeScannerFrame) => {
+    setScannedCodes({ codes, frame });
+    if (clearCodesTimeout.current) {
+      clearTimeout(clearCodesTimeout.current);
+    }
+    clearCodesTimeout.current = setTimeout(() => setScannedCodes(null), CODE_BOX_TIMEOUT_MS);
+
+    const now = Date.now();
+    codes.forEach(code => {
+      if (code.value == null || !isNewScan.current(code, now)) {
+        return;
       }
-      
-      if (selectedDevice.physicalDevices.includes('ultra-wide-angle-camera') && 
-          selectedDevice.physicalDevices.includes('wide-angle-camera') &&
-          selectedDevice.position === 'back') {
-            setCurrentZoom(selectedDevice.neutralZoom || 1);
-      } else {
-            setCurrentZoom(selectedDevice.neutralZoom || 1);
+      addScan({
+        type: code.type,
+        value: code.value,
+        cameraName: selectedDevice ? deviceLabels[selectedDevice.id] || selectedDevice.id : 'Unknown',
+      });
+      showToast(`${getCodeTypeLabel(code.type)}: ${code.value}`);
+    });
+  }, [addScan, showToast, selectedDevice, deviceLabels]);
+
+  const codeScanner = useCodeScanner({ codeTypes: selectedCodeTypes, onCodeScanned });
+
+  const toggleCodeType = useCallback((type: CodeType) => {
+    setSelectedCodeTypes(types => {
+      if (!types.includes(type)) {
+        return [...types, type];
       }
+      // The scanner needs at least one code type to look for.
+      return types.length > 1 ? types.filter(t => t !== type) : types;
+    });
+  }, []);
 
-    } else {
-        setCurrentCameraFormat(undefined);
-        setCurrentZoom(1);
-        setMaxPhotoResolutionForDevice(null);
+  const recordCapture = useCallback(async (capture: Omit<NewCapture, 'cameraName' | 'deviceId' | 'zoom'>) => {
+    if (!selectedDevice) {
+      return;
+    }
+    const cameraInfo = detectedCamerasInfo.find(info => info.device.id === selectedDevice.id);
+    try {
+      await addCapture({
+        ...capture,
+        cameraName: cameraInfo?.name ?? selectedDevice.name ?? selectedDevice.id,
+        deviceId: selectedDevice.id,
+        zoom: currentZoom,
+      });
+    } catch (e: any) {
+      console.error('Failed to save capture to gallery', e);
+      Alert.alert('Gallery', `The capture could not be saved to the gallery: ${e.message}`);
+    }
+  }, [selectedDevice, detectedCamerasInfo, currentZoom, addCapture]);
+
+  const logCameraEvent = useCallback((level: DiagnosticsLevel, code: string, message: string) => {
+    logDiagnostics({
+      level,
+      code,
+      message,
+      deviceId: selectedDevice?.id ?? null,
+      format: describeFormat(currentCameraFormat),
+    });
+  }, [logDiagnostics, selectedDevice, currentCameraFormat]);
+
+  const alertCameraError = useCallback((failure: string, error: any) => {
+    const code = getErrorCode(error);
+    console.error(`${failure}!`, error);
+    logCameraEvent('error', code, `${failure}: ${error?.message}`);
+    const guidance = getErrorGuidance(code);
+    Alert.alert(guidance.title, `${guidance.message}\n\n${failure}: ${error?.message}`, [
+      { text: 'OK', style: 'cancel' },
+      ...(guidance.action === 'open-settings' ? [{ text: 'Open Settings', onPress: () => Linking.openSettings() }] : []),
+    ]);
+  }, [logCameraEvent]);
+
+  const cancelAutoRetry = useCallback(() => {
+    if (retryTimeout.current) {
+      clearTimeout(retryTimeout.current);
+      retryTimeout.current = null;
+    }
+    setPendingRetry(null);
+  }, []);
+
+  useEffect(() => cancelAutoRetry, [cancelAutoRetry]);
+
+  const onCameraError = useCallback((error: CameraRuntimeError) => {
+    const code = getErrorCode(error);
+    console.error('Camera error!', error);
+    if (isAdvisoryError(code)) {
+      logCameraEvent('warning', code, error.message);
+      showToast(getErrorGuidance(code).message);
+      return;
+    }
+    logCameraEvent('error', code, error.message);
+    failSession(error.message, code);
+    if (sessionStartedAt.current != null && Date.now() - sessionStartedAt.current > STABLE_SESSION_MS) {
+      retryAttempts.current = 0;
+    }
+    sessionStartedAt.current = null;
+
+    const delay = isRecoverableError(code) ? getRetryDelay(retryAttempts.current) : null;
+    if (delay == null || retryTimeout.current) {
+      return;
+    }
+    retryAttempts.current += 1;
+    setPendingRetry(retryAttempts.current);
+    logCameraEvent('info', 'session/retry-scheduled', `Retry ${retryAttempts.current} in ${delay} ms`);
+    retryTimeout.current = setTimeout(() => {
+      retryTimeout.current = null;
+      setPendingRetry(null);
+      retrySession();
+    }, delay);
+  }, [logCameraEvent, showToast, failSession, retrySession]);
+
+  const onCameraInitialized = useCallback(() => {
+    sessionStartedAt.current = Date.now();
+    logCameraEvent(
+      'info',
+      'session/initialized',
+      retryAttempts.current > 0 ? `Camera recovered on retry ${retryAttempts.current}` : 'Camera started'
+    );
+  }, [logCameraEvent]);
+
+  const retryManually = useCallback(() => {
+    cancelAutoRetry();
+    retryAttempts.current = 0;
+    retrySession();
+  }, [cancelAutoRetry, retrySession]);
+
+  const waitForPreview = useCallback(() => new Promise<void>(resolve => {
+    const timeout = setTimeout(resolve, PREVIEW_WAIT_TIMEOUT_MS);
+    previewWaiters.current.push(() => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  }), []);
+
+  const takeRawPhoto = useCallback(async () => {
+    if (camera.current == null) {
+      throw new Error('Camera is not ready!');
+    }
+    return camera.current.takePhoto({
+      flash: effectiveCaptureOptions.flash,
+    });
+  }, [effectiveCaptureOptions]);
+
+  // Stamping is best effort: a photo without our fields is still worth keeping.
+  const stampPhoto = useCallback(async (photo: PhotoFile, processed?: ProcessedPhoto) => {
+    if (!selectedDevice) {
+      return undefined;
+    }
+    const stamp: MetadataStamp = {
+      requestedResolution: captureResolutionString,
+      cameraLabel: deviceLabels[selectedDevice.id] ?? selectedDevice.name,
+      zoom: zoomLabel,
+      appVersion: APP_VERSION,
+      operatorTag: operatorTag.trim() || undefined,
+    };
+    try {
+      const stamped = processed?.processed
+        ? await stampPhotoFile(processed.path, stamp, {
+            path: photo.path,
+            outputSize: processed,
+            exifOrientation: processed.exifOrientation,
+          })
+        : await stampPhotoFile(photo.path, stamp);
+      return stamped ? stamp : undefined;
+    } catch (e) {
+      console.warn('Failed to stamp photo metadata', e);
+      return undefined;
+    }
+  }, [selectedDevice, captureResolutionString, deviceLabels, zoomLabel, operatorTag]);
+
+  const finishPhoto = useCallback(async (photo: PhotoFile): Promise<FinishedPhoto> => {
+    const rawResolution = `${photo.width}x${photo.height}`;
+    const exif = parsePhotoMetadata(photo.metadata);
+    const targetResolution = captureResolutionString ? parseResolutionString(captureResolutionString) : null;
+    let result;
+    try {
+      result = await processPhoto(photo, targetResolution, outputSettings);
+    } catch (error: any) {
+      console.error('Error during photo processing:', error);
+      throw new Error(`Failed to process the photo: ${error.message}\nOriginal: ${photo.path}`);
     }
-  }, [selectedDevice]); 
+    const stamp = await stampPhoto(photo, result);
+    await recordCapture({
+      kind: 'photo',
+      path: result.path,
+      requestedResolution: captureResolutionString,
+      actualResolution: `${result.width}x${result.height}`,
+      fileSize: result.size,
+      exif,
+      stamp,
+      container: result.container,
+      quality: result.quality,
+      thumbnailPath: result.thumbnailPath,
+    });
+    return {
+      path: result.path,
+      rawResolution,
+      finalResolution: `${result.width}x${result.height}`,
+      size: result.size,
+      format: describeOutputFormat(result.container, result.quality),
+      warning: result.warning,
+    };
+  }, [captureResolutionString, outputSettings, stampPhoto, recordCapture]);
+
+  const {
+    run: runShootingSequence,
+    stop: stopShootingSequence,
+    isRunning: isSequenceRunning,
+    countdown,
+    progress: sequenceProgress,
+  } = useShootingSequence({ takePhoto: takeRawPhoto, finishPhoto });
+
+  const lensTargets = useMemo(
+    () => (selectedDevice ? getCameraOutputTargets(selectedDevice, devices) : null),
+    [selectedDevice, devices]
+  );
+  const isLensSetMode = lensSetEnabled && lensTargets != null;
+
+  // Lens sets are shot as they come off the sensor; cropping and stamping
+  // follow the active camera, which changes under them.
+  const takeLensPhoto = useCallback(async () => {
+    if (camera.current == null) {
+      throw new Error('Camera is not ready!');
+    }
+    return camera.current.takePhoto();
+  }, []);
+
+  const restoreAfterLensSet = useCallback(() => {
+    if (!selectedDevice) {
+      return;
+    }
+    pendingSettingsRestore.current = {
+      deviceId: selectedDevice.id,
+      deviceName: deviceLabels[selectedDevice.id] || selectedDevice.id,
+      aspectRatioKey: selectedAspectRatioKey,
+      resolution: selectedResolutionString,
+      zoom: currentZoom,
+    };
+    selectDevice(selectedDevice);
+  }, [selectedDevice, deviceLabels, selectedAspectRatioKey, selectedResolutionString, currentZoom, selectDevice]);
+
+  const { captureLensSet, isCapturingLensSet } = useLensSetCapture({
+    selectLens: selectDevice,
+    waitForPreview,
+    takePhoto: takeLensPhoto,
+    restore: restoreAfterLensSet,
+  });
+
+  const shootLensSet = useCallback(async () => {
+    if (!lensTargets || !selectedDevice || !currentCameraFormat) {
+      return;
+    }
+    const shots = await captureLensSet(listLensTargets(lensTargets), selectedDevice, currentCameraFormat);
+    if (!shots) {
+      return;
+    }
+    const groupId = createCaptureId();
+    for (const shot of shots) {
+      if (!shot.path || !shot.resolution) {
+        continue;
+      }
+      try {
+        await addCapture({
+          kind: 'photo',
+          path: shot.path,
+          requestedResolution: null,
+          actualResolution: shot.resolution,
+          cameraName: deviceLabels[shot.device.id] || shot.device.name || shot.device.id,
+          deviceId: shot.device.id,
+          zoom: shot.device.neutralZoom || 1,
+          fileSize: shot.size,
+          exif: shot.exif,
+          groupId,
+          lensLabel: getLensLabel(shot),
+          fieldOfView: shot.fieldOfView,
+        });
+      } catch (e: any) {
+        console.error('Failed to save lens set photo to gallery', e);
+      }
+    }
+    Alert.alert('Lens Set Captured', shots.map(describeLensShot).join('\n'));
+  }, [lensTargets, selectedDevice, currentCameraFormat, captureLensSet, addCapture, deviceLabels]);
+
+  const showPhotoResult = useCallback((shot: FinishedPhoto) => {
+    if (shot.error) {
+      Alert.alert('Error', `Failed to take photo: ${shot.error}`);
+      return;
+    }
+    if (shot.warning) {
+      Alert.alert('Processing Warning', shot.warning);
+    }
+    Alert.alert(
+      'Photo Taken!',
+      `Path: ${shot.path}\nRaw Resolution: ${shot.rawResolution}\nFinal Resolution: ${shot.finalResolution}\nZoom: ${zoomLabel}` +
+        (shot.format ? `\nFormat: ${shot.format}` : '') +
+        (shot.size != null ? `\nFileSize: ${formatFileSize(shot.size)}` : '') +
+        `\n\n${describeCaptureOptions(effectiveCaptureOptions)}`
+    );
+  }, [zoomLabel, effectiveCaptureOptions]);
 
   const onPressTakePhoto = useCallback(async () => {
+    if (isSequenceRunning) {
+      stopShootingSequence();
+      return;
+    }
     if (camera.current == null) {
       Alert.alert('Error', 'Camera is not ready!');
       return;
     }
-    
-    try {
-      const photo: PhotoFile = await camera.current.takePhoto({
-        qualityPrioritization: 'quality',
-        skipMetadata: false,
-      });
-      
+    if (isSessionBusy || isCapturingLensSet) {
+      return;
+    }
+    setShowShootingModePanel(false);
+    setShowOutputPanel(false);
+
+    if (isLensSetMode) {
+      await shootLensSet();
+      return;
+    }
+
+    if (shootingSettings.mode !== 'single') {
+      startCapture();
+      let report;
+      try {
+        report = await runShootingSequence(shootingSettings);
+      } finally {
+        finishCapture();
+      }
+      if (!report) {
+        return;
+      }
+      if (shootingSettings.mode === 'timer' && report.shots.length === 1) {
+        showPhotoResult(report.shots[0]);
+        return;
+      }
       Alert.alert(
-        'Photo Taken!',
-        `Path: ${photo.path}\nRaw Resolution: ${photo.width}x${photo.height}\nFileSize: ${Math.round(photo.size / 1024)}KB`
+        `${describeShootingSettings(shootingSettings)} Finished`,
+        `${describeSequenceReport(report)}\n\nZoom: ${zoomLabel}\n${describeCaptureOptions(effectiveCaptureOptions)}`
       );
+      return;
+    }
 
-      if (selectedResolutionString) {
-        const targetResolution = parseResolutionString(selectedResolutionString);
-        await processPhoto(photo, targetResolution);
+    startCapture();
+    try {
+      const photo = await takeRawPhoto();
+      startProcessing();
+      showPhotoResult(await finishPhoto(photo));
+    } catch (e: any) {
+      alertCameraError('Failed to take photo', e);
+    } finally {
+      finishCapture();
+    }
+  }, [isSequenceRunning, stopShootingSequence, isSessionBusy, isCapturingLensSet, isLensSetMode, shootLensSet, startCapture, startProcessing, finishCapture, shootingSettings, runShootingSequence, showPhotoResult, takeRawPhoto, finishPhoto, zoomLabel, effectiveCaptureOptions, alertCameraError]);
+
+  const onPressRecord = useCallback(async () => {
+    if (camera.current == null) {
+      Alert.alert('Error', 'Camera is not ready!');
+      return;
+    }
+
+    if (recordingStartedAt != null) {
+      try {
+        await camera.current.stopRecording();
+      } catch (e: any) {
+        alertCameraError('Failed to stop recording', e);
       }
+      return;
+    }
 
-    } catch (e: any) {
-      console.error('Failed to take photo!', e);
-      Alert.alert('Error', `Failed to take photo: ${e.message}`);
+    camera.current.startRecording({
+      onRecordingFinished: async (video: VideoFile) => {
+        setRecordingStartedAt(null);
+        finishCapture();
+        let fileSize: number | undefined;
+        try {
+          fileSize = (await RNFS.stat(video.path)).size;
+        } catch (e) {
+          console.warn('Could not read video file size', e);
+        }
+        Alert.alert(
+          'Video Recorded!',
+          `Path: ${video.path}\nResolution: ${video.width}x${video.height}\nDuration: ${formatDuration(video.duration)} (${video.duration.toFixed(1)}s)\nZoom: ${zoomLabel}\nFileSize: ${fileSize != null ? formatFileSize(fileSize) : 'Unknown'}`
+        );
+        await recordCapture({
+          kind: 'video',
+          path: video.path,
+          requestedResolution: selectedVideoResolution,
+          actualResolution: `${video.width}x${video.height}`,
+          fileSize,
+          durationSeconds: video.duration,
+        });
+      },
+      onRecordingError: error => {
+        setRecordingStartedAt(null);
+        finishCapture();
+        alertCameraError('Failed to record video', error);
+      },
+    });
+    startCapture();
+    setRecordingStartedAt(Date.now());
+  }, [recordingStartedAt, selectedVideoResolution, zoomLabel, recordCapture, startCapture, finishCapture, alertCameraError]);
+
+  const switchCaptureMode = useCallback(async (mode: CaptureMode) => {
+    if (mode === captureMode || recordingStartedAt != null || isSequenceRunning || !selectedDevice) {
+      return;
     }
-  }, [currentCameraFormat, selectedResolutionString]);
 
-  const handleCameraSelect = useCallback((deviceToSelect: any) => {
+    if (mode === 'video') {
+      if (!hasMicrophonePermission && !(await requestPermission('microphone'))) {
+        // Only a refusal the system will not prompt for again needs Settings; otherwise the prompt can be shown again.
+        const status = Camera.getMicrophonePermissionStatus();
+        const canOnlyChangeInSettings = status === 'denied' || status === 'restricted';
+        Alert.alert('Microphone', 'Videos will be recorded without sound because microphone access was denied.', [
+          { text: 'OK', style: 'cancel' },
+          canOnlyChangeInSettings
+            ? { text: 'Open Settings', onPress: () => Linking.openSettings() }
+            : { text: 'Ask Again', onPress: () => requestPermission('microphone') },
+        ]);
+      }
+    } else if (selectedResolutionString) {
+      const selection = selectPhotoFormat(selectedDevice, selectedResolutionString, selectedAspectRatioKey);
+      if (selection) {
+        selectFormat(selection.format);
+      }
+    }
+    setCaptureMode(mode);
+  }, [captureMode, recordingStartedAt, isSequenceRunning, selectedDevice, hasMicrophonePermission, requestPermission, selectedResolutionString, selectedAspectRatioKey, selectFormat]);
+
+  const handleCameraSelect = useCallback((deviceToSelect: CameraDevice | undefined) => {
+    if (isSessionBusy) {
+      Alert.alert('Select Camera', 'Wait for the current capture to finish before switching cameras.');
+      return;
+    }
     if (deviceToSelect) {
-      setSelectedDevice(deviceToSelect);
-      setCurrentCameraFormat(undefined);
-      setSelectedResolutionString(null);
-      Alert.alert("Select Camera", `Switched to: ${deviceToSelect.name || deviceToSelect.id} (${deviceToSelect.position === 'front' ? 'Front' : 'Back'})`);
-      setShowDeviceList(false);
+      selectDevice(deviceToSelect);
+      setSelectedVideoResolution(null);
+      showToast(`Switched to: ${deviceLabels[deviceToSelect.id] || deviceToSelect.id}`);
     } else {
       Alert.alert("Error", "Selected camera not found.");
     }
-  }, []);
+  }, [deviceLabels, isSessionBusy, selectDevice, showToast]);
+
+  const renderCameraInfo = useCallback((cameraInfo: CameraInfo) => (
+    <TouchableOpacity
+      key={cameraInfo.device.id}
+      style={[styles.cameraButton, selectedDevice && selectedDevice.id === cameraInfo.device.id && styles.selectedCameraButton]}
+      onPress={() => handleCameraSelect(cameraInfo.device)}
+    >
+      <Text style={styles.cameraButtonLabel}>{cameraInfo.name}</Text>
+      <Text style={styles.cameraButtonDetails}>
+        Physical Devices: {cameraInfo.device.physicalDevices.join(', ')}
+      </Text>
+      <Text style={styles.cameraButtonDetails}>
+          Video Resolution: {cameraInfo.displayResolution}
+      </Text>
+      <Text style={styles.cameraButtonDetails}>
+          Photo Resolution: {cameraInfo.photoDisplayResolution}
+      </Text>
+    </TouchableOpacity>
+  ), [selectedDevice, handleCameraSelect]);
 
   const toggleDeviceList = useCallback(() => {
     setShowDeviceList(prev => !prev);
     setShowResolutionSelection(false);
+    setShowGallery(false);
+    setShowScanHistory(false);
   }, []);
 
   const toggleResolutionSelection = useCallback(() => {
     setShowResolutionSelection(prev => !prev);
     setShowDeviceList(false);
+    setShowGallery(false);
+    setShowScanHistory(false);
+  }, []);
+
+  const toggleGallery = useCallback(() => {
+    setShowGallery(prev => !prev);
+    setShowDeviceList(false);
+    setShowResolutionSelection(false);
+    setShowScanHistory(false);
+  }, []);
+
+  const toggleScanHistory = useCallback(() => {
+    setShowScanHistory(prev => !prev);
+    setShowDeviceList(false);
+    setShowResolutionSelection(false);
+    setShowGallery(false);
   }, []);
 
+  const handleDeleteCapture = useCallback((id: string) => {
+    deleteCapture(id).catch((e: any) => {
+      console.error('Failed to delete capture', e);
+      Alert.alert('Error', `Failed to delete capture: ${e.message}`);
+    });
+  }, [deleteCapture]);
+
+  const exportCapabilities = useCallback(async () => {
+    try {
+      // React Native only reports the hardware model and OS build on Android.
+      const report = buildCapabilityReport(devices, {
+        platform: Platform.OS,
+        osVersion: String(Platform.Version),
+        model: Platform.OS === 'android' ? `${Platform.constants.Manufacturer} ${Platform.constants.Model}` : null,
+        osBuild: Platform.OS === 'android' ? Platform.constants.Fingerprint : null,
+        generatedAt: new Date().toISOString(),
+      });
+      const { jsonPath, csvPath } = await writeCapabilityReport(report);
+      const formatCount = report.devices.reduce((sum, device) => sum + device.formats.length, 0);
+      Alert.alert(
+        "Capabilities Exported",
+        `${report.devices.length} devices, ${formatCount} formats (schema v${report.schemaVersion}).\n\nJSON: ${jsonPath}\nCSV: ${csvPath}`,
+        [
+          { text: 'OK', style: 'cancel' },
+          { text: 'Share JSON', onPress: () => shareExportedFile(jsonPath) },
+          { text: 'Share CSV', onPress: () => shareExportedFile(csvPath) },
+        ]
+      );
+    } catch (e: any) {
+      console.error('Failed to export capabilities', e);
+      Alert.alert('Error', `Failed to export capabilities: ${e.message}`);
+    }
+  }, [devices]);
+
+  const exportDiagnostics = useCallback(async () => {
+    try {
+      const path = await writeDiagnosticsLog(
+        diagnostics,
+        `VisionCameraApp ${APP_VERSION} on ${Platform.OS} ${Platform.Version}, ${devices.length} cameras`
+      );
+      Alert.alert('Diagnostics Exported', `${diagnostics.length} entries.\n\n${path}`, [
+        { text: 'OK', style: 'cancel' },
+        { text: 'Share', onPress: () => shareExportedFile(path) },
+      ]);
+    } catch (e: any) {
+      console.error('Failed to export diagnostics', e);
+      Alert.alert('Error', `Failed to export diagnostics: ${e.message}`);
+    }
+  }, [diagnostics, devices]);
+
   const toggleCameraPosition = useCallback(() => {
+    if (isSessionBusy) {
+      Alert.alert('Switch Camera', 'Wait for the current capture to finish before switching cameras.');
+      return;
+    }
     if (selectedDevice) {
-      let newDevice = null;
+      let newDevice: CameraDevice | undefined;
       if (selectedDevice.position === 'back') {
         newDevice = devices.find(d => d.position === 'front');
       } else if (selectedDevice.position === 'front') {
@@ -357,141 +1014,512 @@ function App(): React.JSX.Element {
       }
 
       if (newDevice) {
-        setSelectedDevice(newDevice);
-        setCurrentCameraFormat(undefined);
-        setSelectedResolutionString(null);
+        selectDevice(newDevice);
+        setSelectedVideoResolution(null);
         Alert.alert("Switch Camera", `Switched to: ${newDevice.position === 'front' ? 'Front' : 'Back'} Camera`);
       } else {
         Alert.alert("No Camera Found", `No ${selectedDevice.position === 'back' ? 'front' : 'back'} camera to switch to on this device.`);
       }
     }
-  }, [selectedDevice, devices]);
+  }, [selectedDevice, devices, isSessionBusy, selectDevice]);
 
-  const getAvailableResolutionsForRatio = useCallback((ratioKey: string) => {
-    if (!maxPhotoResolutionForDevice || !predefinedResolutionsByRatio[ratioKey]) {
-      return [];
+  const resolutionCatalog = useMemo(
+    () => buildResolutionCatalog(selectedDevice?.formats ?? [], showStandardResolutions),
+    [selectedDevice, showStandardResolutions]
+  );
+  const shownRatioKey = expandedRatioKey ?? selectedAspectRatioKey;
+  const selectedRatioGroup = resolutionCatalog.find(group => group.key === shownRatioKey);
+
+  const { compare: compareFormats, isComparing } = useFormatComparison({
+    applyFormat: selectFormat,
+    waitForPreview,
+    takePhoto: takeRawPhoto,
+  });
+
+  // Pinned formats belong to the camera they were picked from.
+  useEffect(() => {
+    setPinnedFormats(NO_PINNED_FORMATS);
+  }, [selectedDevice]);
+
+  const pinFormat = useCallback((slot: ComparisonSlot, format: CameraFormat | null) => {
+    setPinnedFormats(current => ({ ...current, [slot]: format }));
+  }, []);
+
+  const pinFormatAsActive = useCallback((format: CameraFormat) => {
+    const resolution = formatResolution({ width: format.photoWidth, height: format.photoHeight });
+    selectFormat(format, resolution, null);
+    setExpandedRatioKey(null);
+    showToast(`Pinned format: ${resolution}, ${format.minFps}-${format.maxFps} fps`);
+  }, [selectFormat, showToast]);
+
+  const startFormatComparison = useCallback(async () => {
+    if (!currentCameraFormat) {
+      return;
     }
-  
-    const maxDeviceDim = Math.max(maxPhotoResolutionForDevice.width, maxPhotoResolutionForDevice.height);
-    const minDeviceDim = Math.min(maxPhotoResolutionForDevice.width, maxPhotoResolutionForDevice.height);
-    const resolutionsForRatio = predefinedResolutionsByRatio[ratioKey];
-    
-    const available = resolutionsForRatio.filter(resStr => {
-      const { width, height } = parseResolutionString(resStr);
-      const maxOptionDim = Math.max(width, height);
-      const minOptionDim = Math.min(width, height);
-      return maxOptionDim <= maxDeviceDim && minOptionDim <= minDeviceDim;
-    });
-  
-    return available;
-  }, [maxPhotoResolutionForDevice]);
+    // The preview restarts once the browser closes; compare only after that.
+    const resumed = waitForPreview();
+    setShowFormatBrowser(false);
+    setShowResolutionSelection(false);
+    await resumed;
+    const shots = await compareFormats(pinnedFormats, currentCameraFormat);
+    if (shots) {
+      setComparisonShots(shots);
+    }
+  }, [currentCameraFormat, waitForPreview, compareFormats, pinnedFormats]);
 
-  const [selectedAspectRatioKey, setSelectedAspectRatioKey] = useState<string | null>(null);
+  // The preview stays live under the settings sheets; only full-screen views and
+  // the app going to the background pause it.
+  const isDiagnosticsVisible = showDeviceList && showDiagnostics;
+  const isCameraScreenFocused =
+    !showGallery && !showScanHistory && !isDiagnosticsVisible && !showFormatBrowser && comparisonShots == null;
+  const isCameraActive = isForeground && isCameraScreenFocused;
+  const areCameraControlsVisible = isCameraScreenFocused && !showDeviceList && !showResolutionSelection && !isComparing && !isCapturingLensSet;
+  const horizonTilt = useHorizonLevel(compositionSettings.level && isCameraActive);
+  const { timing: sessionTiming, onPreviewStarted, onSessionError } = useSessionTiming({
+    deviceId: selectedDevice?.id ?? '',
+    format: describeFormat(currentCameraFormat),
+    isActive: isCameraActive,
+  });
+
+  const handlePreviewStarted = useCallback(() => {
+    onPreviewStarted();
+    const waiters = previewWaiters.current;
+    previewWaiters.current = [];
+    waiters.forEach(resolve => resolve());
+  }, [onPreviewStarted]);
+  const handleCameraError = useCallback((error: CameraRuntimeError) => {
+    // Advisory errors leave the session running, so its restart still completes.
+    if (!isAdvisoryError(getErrorCode(error))) {
+      onSessionError();
+    }
+    onCameraError(error);
+  }, [onSessionError, onCameraError]);
+  // Only photos are cropped to the selected resolution; video keeps the format's frame.
+  const cropTargetResolution =
+    captureMode === 'photo' && captureResolutionString
+      ? toScreenSize(parseResolutionString(captureResolutionString), deviceOrientation)
+      : null;
+  const cropTargetAspectRatio = cropTargetResolution ? cropTargetResolution.width / cropTargetResolution.height : null;
 
   const handleResolutionSelect = useCallback((resolutionString: string, ratioKey: string) => {
     if (selectedDevice) {
-      const targetResolution = parseResolutionString(resolutionString);
-      
-      const bestFormat = findBestFormatForResolution(selectedDevice, targetResolution, ratioKey);
+      const selection = selectPhotoFormat(selectedDevice, resolutionString, ratioKey);
 
-      if (bestFormat) {
-        setCurrentCameraFormat(bestFormat);
-        setSelectedResolutionString(resolutionString);
-        Alert.alert("Select Resolution", `Switched to: ${resolutionString}\n(Actual Format: ${bestFormat.photoWidth}x${bestFormat.photoHeight})`);
-        setShowResolutionSelection(false);
+      if (selection) {
+        selectFormat(selection.format, resolutionString, ratioKey);
+        setExpandedRatioKey(null);
+        showToast(`Switched to: ${resolutionString}\n${selection.explanation}`);
       } else {
         Alert.alert("Error", "Could not find a suitable format for the selected resolution.");
       }
     }
-  }, [selectedDevice]);
-  
-  if (!hasPermission) {
+  }, [selectedDevice, selectFormat, showToast]);
+
+  const handleVideoResolutionSelect = useCallback((resolutionString: string) => {
+    if (selectedDevice) {
+      const frameRates = getFrameRatesForResolution(selectedDevice.formats, parseResolutionString(resolutionString));
+      setSelectedVideoResolution(resolutionString);
+      if (frameRates.length > 0 && !frameRates.includes(selectedFps)) {
+        setSelectedFps(frameRates.includes(DEFAULT_VIDEO_FPS) ? DEFAULT_VIDEO_FPS : frameRates[0]);
+      }
+    }
+  }, [selectedDevice, selectedFps]);
+
+  const handleFpsSelect = useCallback((fps: number) => {
+    if (selectedDevice) {
+      const selection = selectVideoFormat(selectedDevice, selectedVideoResolution, fps);
+      if (selection) {
+        setSelectedFps(fps);
+        showToast(`Switched to: ${selectedVideoResolution ?? 'Default'} @ ${fps} fps\n${selection.explanation}`);
+      } else {
+        Alert.alert("Error", "Could not find a suitable format for the selected frame rate.");
+      }
+    }
+  }, [selectedDevice, selectedVideoResolution, showToast]);
+
+  if (!hasPermission || showPermissions) {
     return (
-        <View style={styles.container}>
-            <Text style={styles.text}>App does not have camera permission.</Text>
-        </View>
+      <PermissionsScreen
+        statuses={permissionStatuses}
+        refused={refusedPermissions}
+        onRequest={requestPermission}
+        onContinue={() => setShowPermissions(false)}
+      />
+    );
+  }
+
+  if (session.status === 'error') {
+    const otherDevice = devices.find(d => d.id !== selectedDevice?.id);
+    const guidance = session.errorCode ? getErrorGuidance(session.errorCode) : null;
+    return (
+      <View style={[styles.container, styles.loadingOverlay]}>
+        <Text style={styles.text}>{guidance?.title ?? 'The camera could not be started.'}</Text>
+        {guidance && <Text style={styles.cameraText}>{guidance.message}</Text>}
+        <Text style={styles.cameraText}>{session.error}</Text>
+        {session.errorCode && <Text style={styles.cameraText}>{session.errorCode}</Text>}
+        {pendingRetry != null && (
+          <Text style={styles.cameraText}>Retrying automatically (attempt {pendingRetry})…</Text>
+        )}
+        {guidance?.action === 'open-settings' && (
+          <TouchableOpacity style={styles.exportButton} onPress={() => Linking.openSettings()}>
+            <Text style={styles.exportButtonText}>Open Settings</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.exportButton} onPress={retryManually}>
+          <Text style={styles.exportButtonText}>Retry</Text>
+        </TouchableOpacity>
+        {otherDevice && (
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => {
+              cancelAutoRetry();
+              selectDevice(otherDevice);
+            }}
+          >
+            <Text style={styles.exportButtonText}>Use {deviceLabels[otherDevice.id] || otherDevice.id}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
     );
   }
 
-  if (selectedDevice == null || currentCameraFormat === undefined) {
-    return (
-      <View style={styles.container}>
-        <Text style={styles.text}>Searching for camera devices and setting resolution...</Text>
-      </View>
-    );
-  }
+  if (selectedDevice == null || currentCameraFormat == null) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.text}>Searching for camera devices and setting resolution...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={StyleSheet.absoluteFill}
+        onLayout={event => setPreviewSize(event.nativeEvent.layout)}
+        {...zoomGestureHandlers}
+      >
+        <Camera 
+          ref={camera}
+          style={StyleSheet.absoluteFill} 
+          device={selectedDevice} 
+          format={currentCameraFormat} 
+          isActive={isCameraActive}
+          zoom={currentZoom}
+          exposure={exposure}
+          torch={effectiveCaptureOptions.torch ? 'on' : 'off'}
+          photoHdr={effectiveCaptureOptions.photoHdr}
+          lowLightBoost={effectiveCaptureOptions.lowLightBoost}
+          photoQualityBalance={effectiveCaptureOptions.qualityBalance}
+          photo={true}
+          video={captureMode === 'video'}
+          audio={captureMode === 'video' && hasMicrophonePermission}
+          enableLocation={hasLocationPermission}
+          fps={captureMode === 'video' ? selectedFps : undefined}
+          codeScanner={captureMode === 'scan' ? codeScanner : undefined}
+          frameProcessor={showFrameStatistics ? frameProcessor : undefined}
+          pixelFormat="yuv"
+          outputOrientation="device"
+          onOutputOrientationChanged={setDeviceOrientation}
+          onInitialized={onCameraInitialized}
+          onPreviewStarted={handlePreviewStarted}
+          onError={handleCameraError}
+        />
+        {previewSize && currentCameraFormat.photoWidth && currentCameraFormat.photoHeight && currentCameraFormat.videoWidth && currentCameraFormat.videoHeight && (
+          <CompositionOverlay
+            settings={compositionSettings}
+            viewSize={previewSize}
+            videoAspectRatio={getUprightAspectRatio(
+              { width: currentCameraFormat.videoWidth, height: currentCameraFormat.videoHeight },
+              previewSize
+            )}
+            photoAspectRatio={getUprightAspectRatio(
+              { width: currentCameraFormat.photoWidth, height: currentCameraFormat.photoHeight },
+              previewSize
+            )}
+            targetAspectRatio={cropTargetAspectRatio}
+            tilt={horizonTilt}
+          />
+        )}
+        {captureMode === 'scan' && scannedCodes && (
+          <CodeBoundingBoxes codes={scannedCodes.codes} scannerFrame={scannedCodes.frame} viewSize={previewSize} />
+        )}
+        <FocusExposureControls
+          camera={camera}
+          device={selectedDevice}
+          exposure={exposure}
+          onExposureChange={setExposure}
+          locked={isFocusLocked}
+          onLockedChange={setIsFocusLocked}
+        />
+      </View>
+
+      {(isComparing || isCapturingLensSet) && (
+        <View style={styles.recordingIndicator}>
+          <Text style={styles.recordingIndicatorText}>
+            ● {isComparing ? 'Comparing A/B formats...' : 'Capturing lens set...'}
+          </Text>
+        </View>
+      )}
+
+      {showSessionTiming && isCameraScreenFocused && (
+        <SessionTimingOverlay timing={sessionTiming} isActive={isCameraActive} />
+      )}
+
+      {areCameraControlsVisible && (
+        <>
+          <TouchableOpacity style={styles.settingsButton} onPress={toggleDeviceList}>
+            <Text style={[styles.settingsButtonText, iconRotationStyle]}>⚙️</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.cameraToggleButton} onPress={toggleCameraPosition}>
+            <Text style={[styles.cameraToggleButtonText, iconRotationStyle]}>🔄</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.resolutionButton} onPress={toggleResolutionSelection}>
+            <Text style={[styles.resolutionButtonText, iconRotationStyle]}>🖼️</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.galleryButton} onPress={toggleGallery}>
+            <Text style={[styles.galleryButtonText, iconRotationStyle]}>🗂️</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.frameStatisticsButton, showFrameStatistics && styles.selectedFrameStatisticsButton]}
+            onPress={() => setShowFrameStatistics(show => !show)}
+          >
+            <Text style={[styles.galleryButtonText, iconRotationStyle]}>📊</Text>
+          </TouchableOpacity>
+
+          {showFrameStatistics && (
+            <FrameStatisticsOverlay
+              statistics={frameStatistics}
+              analysers={FRAME_ANALYSERS}
+              maxFps={currentCameraFormat?.maxFps}
+            />
+          )}
+
+          <TouchableOpacity
+            style={[styles.compositionButton, showCompositionMenu && styles.selectedFrameStatisticsButton]}
+            onPress={() => {
+              setShowCompositionMenu(show => !show);
+              setShowShootingModePanel(false);
+              setShowOutputPanel(false);
+            }}
+          >
+            <Text style={[styles.galleryButtonText, iconRotationStyle]}>📐</Text>
+          </TouchableOpacity>
+
+          {showCompositionMenu && (
+            <CompositionMenu
+              settings={compositionSettings}
+              onChange={setCompositionSettings}
+              cropFrameAvailable={cropTargetAspectRatio != null}
+            />
+          )}
+
+          {captureMode === 'scan' && (
+            <TouchableOpacity style={styles.scanHistoryButton} onPress={toggleScanHistory}>
+              <Text style={[styles.galleryButtonText, iconRotationStyle]}>📋</Text>
+            </TouchableOpacity>
+          )}
+
+          {recordingStartedAt != null && (
+            <View style={styles.recordingIndicator}>
+              <Text style={styles.recordingIndicatorText}>● REC {formatDuration(recordingElapsed)}</Text>
+            </View>
+          )}
+
+          {captureCapabilities && (
+            <CaptureOptionsBar
+              options={effectiveCaptureOptions}
+              capabilities={captureCapabilities}
+              onChange={setCaptureOptions}
+            />
+          )}
+
+          <View style={styles.zoomControls}>
+            {getZoomPresets(selectedDevice, devices).map(preset => (
+              <TouchableOpacity
+                key={preset.label}
+                style={[styles.zoomPresetButton, Math.abs(currentZoom - preset.zoom) < 0.01 && styles.selectedZoomPresetButton]}
+                onPress={() => handleZoomChange(preset.zoom)}
+              >
+                <Text style={[styles.zoomPresetButtonText, iconRotationStyle]}>{preset.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.zoomIndicator}>
+            <Text style={[styles.zoomIndicatorText, iconRotationStyle]}>{zoomLabel}</Text>
+          </View>
+
+          <View style={styles.captureModeSwitch}>
+            {(['photo', 'video', 'scan'] as CaptureMode[]).map(mode => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.captureModeButton, captureMode === mode && styles.selectedCaptureModeButton]}
+                onPress={() => switchCaptureMode(mode)}
+                disabled={recordingStartedAt != null}
+              >
+                <Text style={styles.captureModeButtonText}>{mode.toUpperCase()}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {captureMode === 'photo' && (
+            <>
+              {!isLensSetMode && (
+                <TouchableOpacity
+                  style={styles.shootingModeButton}
+                  onPress={() => {
+                    setShowShootingModePanel(show => !show);
+                    setShowCompositionMenu(false);
+                    setShowOutputPanel(false);
+                  }}
+                  disabled={isSequenceRunning}
+                >
+                  <Text style={styles.shootingModeButtonText}>{describeShootingSettings(shootingSettings)}</Text>
+                </TouchableOpacity>
+              )}
+
+              {!isLensSetMode && (
+                <TouchableOpacity
+                  style={[styles.outputButton, showOutputPanel && styles.selectedFrameStatisticsButton]}
+                  onPress={() => {
+                    setShowOutputPanel(show => !show);
+                    setShowShootingModePanel(false);
+                    setShowCompositionMenu(false);
+                  }}
+                  disabled={isSequenceRunning}
+                >
+                  <Text style={styles.shootingModeButtonText}>
+                    {outputProfile.name}: {describeOutputSettings(outputSettings)}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              {lensTargets && (
+                <TouchableOpacity
+                  style={[styles.lensSetButton, isLensSetMode && styles.selectedFrameStatisticsButton]}
+                  onPress={() => {
+                    setLensSetEnabled(enabled => !enabled);
+                    setShowShootingModePanel(false);
+                    setShowOutputPanel(false);
+                  }}
+                  disabled={isSequenceRunning}
+                >
+                  <Text style={styles.shootingModeButtonText}>Lenses ×{listLensTargets(lensTargets).length}</Text>
+                </TouchableOpacity>
+              )}
 
-  return (
-    <View style={styles.container}>
-      {selectedDevice && currentCameraFormat && !showDeviceList && !showResolutionSelection ? (
-        <Camera 
-          ref={camera}
-          style={StyleSheet.absoluteFill} 
-          device={selectedDevice} 
-          format={currentCameraFormat} 
-          isActive={true} 
-          zoom={currentZoom}
-          photo={true}
-        />
-      ) : (
-        <View style={[StyleSheet.absoluteFill, styles.loadingOverlay]}>
-            <Text style={styles.text}>Loading camera or selecting camera/resolution...</Text>
-        </View>
-      )}
+              {showShootingModePanel && (
+                <ShootingModePanel settings={shootingSettings} onChange={setShootingSettings} />
+              )}
 
-      {!showDeviceList && !showResolutionSelection && selectedDevice && (
-        <>
-          <TouchableOpacity style={styles.settingsButton} onPress={toggleDeviceList}>
-            <Text style={styles.settingsButtonText}>⚙️</Text>
-          </TouchableOpacity>
+              {showOutputPanel && containerSupport && (
+                <OutputSettingsPanel
+                  profiles={outputProfiles}
+                  activeProfile={outputProfile}
+                  support={containerSupport}
+                  onSelectProfile={selectOutputProfile}
+                  onChange={updateOutputSettings}
+                />
+              )}
 
-          <TouchableOpacity style={styles.cameraToggleButton} onPress={toggleCameraPosition}>
-            <Text style={styles.cameraToggleButtonText}>🔄</Text>
-          </TouchableOpacity>
+              {isSequenceRunning ? (
+                <TouchableOpacity style={styles.recordButton} onPress={onPressTakePhoto}>
+                  <View style={styles.stopRecordingIcon} />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.takePhotoButton} onPress={onPressTakePhoto}>
+                  <Text style={styles.takePhotoButtonText}></Text>
+                </TouchableOpacity>
+              )}
 
-          <TouchableOpacity style={styles.resolutionButton} onPress={toggleResolutionSelection}>
-            <Text style={styles.resolutionButtonText}>🖼️</Text>
-          </TouchableOpacity>
+              {countdown != null && (
+                <View style={styles.countdownOverlay} pointerEvents="none">
+                  <Text style={styles.countdownText}>{countdown}</Text>
+                </View>
+              )}
 
-          <TouchableOpacity style={styles.takePhotoButton} onPress={onPressTakePhoto}>
-            <Text style={styles.takePhotoButtonText}></Text>
-          </TouchableOpacity>
+              {sequenceProgress && (
+                <View style={styles.recordingIndicator}>
+                  <Text style={styles.recordingIndicatorText}>
+                    ● {sequenceProgress.taken}/{sequenceProgress.total ?? '∞'}
+                  </Text>
+                </View>
+              )}
+            </>
+          )}
+          {captureMode === 'video' && (
+            <TouchableOpacity style={styles.recordButton} onPress={onPressRecord}>
+              <View style={recordingStartedAt != null ? styles.stopRecordingIcon : styles.startRecordingIcon} />
+            </TouchableOpacity>
+          )}
+          {captureMode === 'scan' && (
+            <View style={styles.scanStatus}>
+              <Text style={styles.scanStatusText}>
+                Scanning for {selectedCodeTypes.map(getCodeTypeLabel).join(', ')}
+              </Text>
+            </View>
+          )}
         </>
       )}
 
       {showDeviceList && (
-        <View style={styles.deviceListContainer}>
+        <View style={styles.bottomSheet}>
           <View style={styles.deviceListHeader}>
             <TouchableOpacity onPress={toggleDeviceList} style={styles.backButton}>
-              <Text style={styles.backButtonText}>{"< Back"}</Text>
+              <Text style={styles.backButtonText}>{"< Camera"}</Text>
             </TouchableOpacity>
             <Text style={styles.deviceListTitle}>Camera Devices</Text>
           </View>
           <Text style={styles.deviceListDescription}>
-            These are all detected Camera devices on your phone. This list will
-            automatically update as you plug devices in or out.
+            Detected cameras, updated as you plug devices in or out. Tap one to switch the preview to it.
           </Text>
 
+          <TouchableOpacity style={styles.exportButton} onPress={exportCapabilities}>
+            <Text style={styles.exportButtonText}>Export capabilities (JSON + CSV)</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.exportButton} onPress={() => setShowPermissions(true)}>
+            <Text style={styles.exportButtonText}>Permissions</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.exportButton} onPress={() => setShowDiagnostics(true)}>
+            <Text style={styles.exportButtonText}>Diagnostics log ({diagnostics.length})</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.exportButton} onPress={() => setShowSessionTiming(show => !show)}>
+            <Text style={styles.exportButtonText}>Session timing overlay: {showSessionTiming ? 'Shown' : 'Hidden'}</Text>
+          </TouchableOpacity>
+
+          <View style={styles.operatorTagRow}>
+            <Text style={styles.operatorTagLabel}>Operator / project tag</Text>
+            <TextInput
+              style={styles.operatorTagInput}
+              value={operatorTag}
+              onChangeText={updateOperatorTag}
+              placeholder="Written into every photo's metadata"
+              placeholderTextColor="gray"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
           <ScrollView style={styles.cameraListScrollView}>
             {detectedCamerasInfo.length > 0 ? (
-              detectedCamerasInfo.map((cameraInfo) => (
-                <TouchableOpacity
-                  key={cameraInfo.device.id}
-                  style={[styles.cameraButton, selectedDevice && selectedDevice.id === cameraInfo.device.id && styles.selectedCameraButton]}
-                  onPress={() => handleCameraSelect(cameraInfo.device)}
-                >
-                  <Text style={styles.cameraButtonLabel}>{cameraInfo.name}</Text>
-                  <Text style={styles.cameraButtonDetails}>
-                    Physical Devices: {cameraInfo.device.physicalDevices.join(', ')}
-                  </Text>
-                  <Text style={styles.cameraButtonDetails}>
-                      Video Resolution: {cameraInfo.displayResolution}
-                  </Text>
-                  <Text style={styles.cameraButtonDetails}>
-                      Photo Resolution: {cameraInfo.photoDisplayResolution}
-                  </Text>
-                </TouchableOpacity>
-              ))
+              <>
+                <Text style={styles.sectionTitle}>Built-in Cameras</Text>
+                {detectedCamerasInfo.filter(cameraInfo => !isExternalDevice(cameraInfo.device)).map(renderCameraInfo)}
+
+                <Text style={styles.sectionTitle}>External Cameras</Text>
+                {detectedCamerasInfo.some(cameraInfo => isExternalDevice(cameraInfo.device)) ? (
+                  detectedCamerasInfo.filter(cameraInfo => isExternalDevice(cameraInfo.device)).map(renderCameraInfo)
+                ) : (
+                  <Text style={styles.cameraText}>No external cameras connected.</Text>
+                )}
+              </>
             ) : (
               <Text style={styles.text}>No specific camera types found.</Text>
             )}
@@ -500,7 +1528,7 @@ function App(): React.JSX.Element {
       )}
 
       {showResolutionSelection && (
-        <View style={styles.deviceListContainer}>
+        <View style={styles.bottomSheet}>
           <View style={styles.deviceListHeader}>
             <TouchableOpacity onPress={toggleResolutionSelection} style={styles.backButton}>
               <Text style={styles.backButtonText}>{"< Camera"}</Text>
@@ -509,52 +1537,162 @@ function App(): React.JSX.Element {
           </View>
           <Text style={styles.deviceListDescription}>
             Select the Aspect Ratio and Photo Resolution supported by the current camera.
-            {"\n"}Current Camera: {selectedDevice?.name || selectedDevice?.id} ({selectedDevice?.position === 'front' ? 'Front' : 'Back'})
+            {"\n"}Current Camera: {deviceLabels[selectedDevice?.id] || selectedDevice?.id}
             {"\n"}Device Max Res: {maxPhotoResolutionForDevice ? `${maxPhotoResolutionForDevice.width}x${maxPhotoResolutionForDevice.height}` : 'N/A'}
             {"\n"}User-Selected Res: {selectedResolutionString || 'Default'}
+            {"\n"}Capturing As: {captureResolutionString || 'Default'}{captureRatioKey ? `, ${captureRatioKey}` : ''} (held {deviceOrientation})
             {"\n"}Actual Format Res: {currentCameraFormat?.photoWidth}x{currentCameraFormat?.photoHeight}
+            {"\n"}Actual Video Res: {currentCameraFormat?.videoWidth}x{currentCameraFormat?.videoHeight} ({currentCameraFormat?.minFps}-{currentCameraFormat?.maxFps} fps)
             {"\n"}Current Zoom: {currentZoom.toFixed(2)}x
           </Text>
 
-          <ScrollView style={styles.cameraListScrollView}>
-            <Text style={styles.sectionTitle}>Select Aspect Ratio (Photo):</Text>
-            {Object.keys(predefinedResolutionsByRatio).map((ratioKey) => (
-              <TouchableOpacity
-                key={ratioKey}
-                style={[styles.cameraButton, selectedAspectRatioKey === ratioKey && styles.selectedCameraButton]}
-                onPress={() => setSelectedAspectRatioKey(ratioKey)}
-              >
-                <Text style={styles.cameraButtonText}>{ratioKey}</Text>
-              </TouchableOpacity>
-            ))}
+          <TouchableOpacity style={styles.exportButton} onPress={() => setShowFormatBrowser(true)}>
+            <Text style={styles.exportButtonText}>Browse all {selectedDevice.formats.length} formats</Text>
+          </TouchableOpacity>
 
-            {selectedAspectRatioKey && (
-              <>
-                <Text style={styles.sectionTitle}>Select Photo Resolution ({selectedAspectRatioKey}):</Text>
-                {getAvailableResolutionsForRatio(selectedAspectRatioKey).length > 0 ? (
-                  getAvailableResolutionsForRatio(selectedAspectRatioKey).map((resStr) => (
+          {captureMode === 'video' ? (
+            <ScrollView style={styles.cameraListScrollView}>
+              <Text style={styles.sectionTitle}>Select Video Resolution:</Text>
+              {getVideoResolutions(selectedDevice.formats).map((resStr) => (
+                <TouchableOpacity
+                  key={resStr}
+                  style={[styles.cameraButton, selectedVideoResolution === resStr && styles.selectedCameraButton]}
+                  onPress={() => handleVideoResolutionSelect(resStr)}
+                >
+                  <Text style={styles.cameraButtonText}>{resStr}</Text>
+                </TouchableOpacity>
+              ))}
+
+              {selectedVideoResolution && (
+                <>
+                  <Text style={styles.sectionTitle}>Select Frame Rate ({selectedVideoResolution}):</Text>
+                  {getFrameRatesForResolution(selectedDevice.formats, parseResolutionString(selectedVideoResolution)).map((fps) => (
                     <TouchableOpacity
-                      key={resStr}
-                      style={[
-                        styles.cameraButton,
-                        selectedResolutionString === resStr && styles.selectedCameraButton
-                      ]}
-                      onPress={() => handleResolutionSelect(resStr, selectedAspectRatioKey)}
+                      key={fps}
+                      style={[styles.cameraButton, selectedFps === fps && styles.selectedCameraButton]}
+                      onPress={() => handleFpsSelect(fps)}
                     >
-                      <Text style={styles.cameraButtonText}>{resStr}</Text>
+                      <Text style={styles.cameraButtonText}>{fps} fps</Text>
                     </TouchableOpacity>
-                  ))
-                ) : (
-                  <Text style={styles.cameraText}>No supported Photo Resolutions found for this Aspect Ratio.</Text>
-                )}
-                <Text style={styles.textWarning}>
-                  Note: The actual capture format may have a higher resolution and will be cropped if necessary.
+                  ))}
+                </>
+              )}
+            </ScrollView>
+          ) : (
+            <ScrollView style={styles.cameraListScrollView}>
+              {captureMode === 'scan' && (
+                <>
+                  <Text style={styles.sectionTitle}>Code Types:</Text>
+                  <View style={styles.codeTypeList}>
+                    {SCANNABLE_CODE_TYPES.map(({ type, label }) => (
+                      <TouchableOpacity
+                        key={type}
+                        style={[styles.codeTypeButton, selectedCodeTypes.includes(type) && styles.selectedCameraButton]}
+                        onPress={() => toggleCodeType(type)}
+                      >
+                        <Text style={styles.cameraButtonText}>{label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              <TouchableOpacity
+                style={[styles.cameraButton, showStandardResolutions && styles.selectedCameraButton]}
+                onPress={() => setShowStandardResolutions(show => !show)}
+              >
+                <Text style={styles.cameraButtonText}>
+                  Standard sizes: {showStandardResolutions ? 'Shown' : 'Hidden'}
                 </Text>
-              </>
-            )}
-          </ScrollView>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.cameraButton, followDeviceOrientation && styles.selectedCameraButton]}
+                onPress={() => setFollowDeviceOrientation(follow => !follow)}
+              >
+                <Text style={styles.cameraButtonText}>
+                  Portrait/landscape: {followDeviceOrientation ? 'Follows how the phone is held' : 'As selected'}
+                </Text>
+              </TouchableOpacity>
+
+              <Text style={styles.sectionTitle}>Select Aspect Ratio (Photo):</Text>
+              {resolutionCatalog.map((group) => (
+                <TouchableOpacity
+                  key={group.key}
+                  style={[styles.cameraButton, shownRatioKey === group.key && styles.selectedCameraButton]}
+                  onPress={() => setExpandedRatioKey(group.key)}
+                >
+                  <Text style={styles.cameraButtonText}>{group.key}</Text>
+                </TouchableOpacity>
+              ))}
+
+              {shownRatioKey && (
+                <>
+                  <Text style={styles.sectionTitle}>Select Photo Resolution ({shownRatioKey}):</Text>
+                  {selectedRatioGroup && selectedRatioGroup.options.length > 0 ? (
+                    selectedRatioGroup.options.map((option) => (
+                      <TouchableOpacity
+                        key={option.resolution}
+                        style={[
+                          styles.cameraButton,
+                          selectedResolutionString === option.resolution && styles.selectedCameraButton
+                        ]}
+                        onPress={() => handleResolutionSelect(option.resolution, shownRatioKey)}
+                      >
+                        <Text style={styles.cameraButtonText}>
+                          {option.resolution} · {describeResolutionOption(option)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))
+                  ) : (
+                    <Text style={styles.cameraText}>No supported Photo Resolutions found for this Aspect Ratio.</Text>
+                  )}
+                  <Text style={styles.textWarning}>
+                    Note: Native sizes are delivered by the sensor as-is. Other sizes are cropped and/or downscaled from a larger format after capture.
+                  </Text>
+                </>
+              )}
+            </ScrollView>
+          )}
         </View>
       )}
+
+      {showFormatBrowser && (
+        <FormatBrowserScreen
+          deviceLabel={deviceLabels[selectedDevice.id] || selectedDevice.id}
+          formats={selectedDevice.formats}
+          activeFormat={currentCameraFormat}
+          pinned={pinnedFormats}
+          canUseFormat={captureMode !== 'video'}
+          onUse={pinFormatAsActive}
+          onPin={pinFormat}
+          onCompare={startFormatComparison}
+          onClose={() => setShowFormatBrowser(false)}
+        />
+      )}
+
+      {comparisonShots && (
+        <FormatComparisonScreen shots={comparisonShots} onClose={() => setComparisonShots(null)} />
+      )}
+
+      {showGallery && (
+        <GalleryScreen captures={captures} onClose={toggleGallery} onDelete={handleDeleteCapture} />
+      )}
+
+      {showScanHistory && (
+        <ScanHistoryScreen scans={scans} onClose={toggleScanHistory} onClear={clearScans} />
+      )}
+
+      {isDiagnosticsVisible && (
+        <DiagnosticsScreen
+          entries={diagnostics}
+          onClose={() => setShowDiagnostics(false)}
+          onClear={clearDiagnostics}
+          onExport={exportDiagnostics}
+        />
+      )}
+
+      <Toast message={toastMessage} />
     </View>
   );
 }
@@ -637,6 +1775,88 @@ const styles = StyleSheet.create({
         fontSize: 24,
         color: 'white',
     },
+    galleryButton: {
+        position: 'absolute',
+        top: 230,
+        right: 20,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 25,
+        width: 50,
+        height: 50,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 10,
+    },
+    frameStatisticsButton: {
+        position: 'absolute',
+        top: 290,
+        right: 20,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 25,
+        width: 50,
+        height: 50,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 10,
+    },
+    selectedFrameStatisticsButton: {
+        backgroundColor: 'rgba(0,123,255,0.8)',
+    },
+    compositionButton: {
+        position: 'absolute',
+        top: 350,
+        right: 20,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 25,
+        width: 50,
+        height: 50,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 10,
+    },
+    scanHistoryButton: {
+        position: 'absolute',
+        top: 410,
+        right: 20,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 25,
+        width: 50,
+        height: 50,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 10,
+    },
+    scanStatus: {
+        position: 'absolute',
+        bottom: 55,
+        alignSelf: 'center',
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        borderRadius: 20,
+        paddingVertical: 10,
+        paddingHorizontal: 16,
+        maxWidth: '85%',
+    },
+    scanStatusText: {
+        color: '#34C759',
+        fontSize: 14,
+        textAlign: 'center',
+    },
+    codeTypeList: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 10,
+    },
+    codeTypeButton: {
+        backgroundColor: '#333',
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 8,
+    },
+    galleryButtonText: {
+        fontSize: 24,
+        color: 'white',
+    },
     takePhotoButton: {
         position: 'absolute',
         bottom: 40,
@@ -655,10 +1875,172 @@ const styles = StyleSheet.create({
         fontSize: 36,
         color: 'white',
     },
-    deviceListContainer: {
+    recordButton: {
+        position: 'absolute',
+        bottom: 40,
+        alignSelf: 'center',
+        backgroundColor: 'rgba(0,0,0,0.3)',
+        borderRadius: 35,
+        width: 70,
+        height: 70,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 10,
+        borderWidth: 4,
+        borderColor: 'white',
+    },
+    startRecordingIcon: {
+        width: 50,
+        height: 50,
+        borderRadius: 25,
+        backgroundColor: '#FF0000',
+    },
+    stopRecordingIcon: {
+        width: 28,
+        height: 28,
+        borderRadius: 4,
+        backgroundColor: '#FF0000',
+    },
+    captureModeSwitch: {
+        position: 'absolute',
+        bottom: 125,
+        alignSelf: 'center',
+        flexDirection: 'row',
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 16,
+        padding: 3,
+        zIndex: 10,
+    },
+    captureModeButton: {
+        paddingVertical: 6,
+        paddingHorizontal: 14,
+        borderRadius: 13,
+    },
+    selectedCaptureModeButton: {
+        backgroundColor: '#007bff',
+    },
+    captureModeButtonText: {
+        color: 'white',
+        fontSize: 13,
+        fontWeight: 'bold',
+    },
+    zoomControls: {
+        position: 'absolute',
+        bottom: 170,
+        alignSelf: 'center',
+        flexDirection: 'row',
+        backgroundColor: 'rgba(0,0,0,0.3)',
+        borderRadius: 20,
+        padding: 4,
+        zIndex: 10,
+    },
+    zoomPresetButton: {
+        minWidth: 36,
+        height: 36,
+        borderRadius: 18,
+        marginHorizontal: 3,
+        paddingHorizontal: 6,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: 'rgba(0,0,0,0.5)',
+    },
+    selectedZoomPresetButton: {
+        backgroundColor: 'rgba(255,204,0,0.9)',
+    },
+    zoomPresetButtonText: {
+        color: 'white',
+        fontSize: 12,
+        fontWeight: 'bold',
+    },
+    zoomIndicator: {
+        position: 'absolute',
+        top: 50,
+        left: 20,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 12,
+        paddingVertical: 4,
+        paddingHorizontal: 10,
+        zIndex: 10,
+    },
+    zoomIndicatorText: {
+        color: '#FFCC00',
+        fontSize: 14,
+        fontWeight: 'bold',
+    },
+    recordingIndicator: {
+        position: 'absolute',
+        top: 50,
+        alignSelf: 'center',
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 12,
+        paddingVertical: 4,
+        paddingHorizontal: 12,
+        zIndex: 10,
+    },
+    shootingModeButton: {
+        position: 'absolute',
+        bottom: 60,
+        left: 30,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 15,
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        zIndex: 10,
+    },
+    outputButton: {
+        position: 'absolute',
+        bottom: 100,
+        left: 30,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 15,
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        zIndex: 10,
+    },
+    lensSetButton: {
+        position: 'absolute',
+        bottom: 60,
+        right: 30,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        borderRadius: 15,
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        zIndex: 10,
+    },
+    shootingModeButtonText: {
+        color: 'white',
+        fontSize: 13,
+        fontWeight: 'bold',
+    },
+    countdownOverlay: {
         ...StyleSheet.absoluteFillObject,
-        backgroundColor: 'black',
-        paddingTop: 50,
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 5,
+    },
+    countdownText: {
+        color: 'white',
+        fontSize: 120,
+        fontWeight: 'bold',
+        textShadowColor: 'rgba(0,0,0,0.6)',
+        textShadowRadius: 10,
+    },
+    recordingIndicatorText: {
+        color: '#FF3B30',
+        fontSize: 16,
+        fontWeight: 'bold',
+        fontVariant: ['tabular-nums'],
+    },
+    bottomSheet: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        height: '70%',
+        backgroundColor: 'rgba(0,0,0,0.8)',
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        paddingTop: 15,
     },
     deviceListHeader: {
         flexDirection: 'row',
@@ -687,6 +2069,36 @@ const styles = StyleSheet.create({
         marginBottom: 20,
         lineHeight: 20,
     },
+    exportButton: {
+        marginHorizontal: 15,
+        marginBottom: 15,
+        paddingVertical: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: '#007bff',
+        alignItems: 'center',
+    },
+    exportButtonText: {
+        color: '#007bff',
+        fontSize: 16,
+    },
+    operatorTagRow: {
+        marginHorizontal: 15,
+        marginBottom: 15,
+    },
+    operatorTagLabel: {
+        color: 'lightgray',
+        fontSize: 14,
+        marginBottom: 5,
+    },
+    operatorTagInput: {
+        backgroundColor: '#1c1c1e',
+        color: 'white',
+        fontSize: 16,
+        borderRadius: 8,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+    },
     cameraListScrollView: {
         flex: 1,
         paddingHorizontal: 15,
@@ -0,0 +1,310 @@
+import type {
+  CameraDevice,
+  CameraDeviceFormat,
+  VideoStabilizationMode,
+} from 'react-native-vision-camera';
+
+// Trimmed-down format lists as reported by VisionCamera on real phones. Only the
+// fields the app looks at are varied; the rest use the values those phones report.
+
+type FormatSpec = [
+  photo: string,
+  video: string,
+  fps: [number, number],
+  fov: number,
+  extras?: Partial<CameraDeviceFormat>,
+];
+
+const IOS_STABILIZATION: VideoStabilizationMode[] = [
+  'off',
+  'standard',
+  'cinematic',
+  'cinematic-extended',
+  'auto',
+];
+const ANDROID_STABILIZATION: VideoStabilizationMode[] = [
+  'off',
+  'standard',
+  'cinematic',
+];
+
+const toFormat =
+  (defaults: Partial<CameraDeviceFormat>) =>
+  ([
+    photo,
+    video,
+    [minFps, maxFps],
+    fov,
+    extras,
+  ]: FormatSpec): CameraDeviceFormat => {
+    const [photoWidth, photoHeight] = photo.split('x').map(Number);
+    const [videoWidth, videoHeight] = video.split('x').map(Number);
+    return {
+      photoWidth,
+      photoHeight,
+      videoWidth,
+      videoHeight,
+      minFps,
+      maxFps,
+      fieldOfView: fov,
+      minISO: 34,
+      maxISO: 3264,
+      supportsVideoHdr: false,
+      supportsPhotoHdr: false,
+      supportsDepthCapture: false,
+      autoFocusSystem: 'phase-detection',
+      videoStabilizationModes: ['off'],
+      ...defaults,
+      ...extras,
+    };
+  };
+
+const makeDevice = (
+  device: Pick<CameraDevice, 'id' | 'name' | 'position' | 'physicalDevices'> &
+    Partial<CameraDevice>,
+): CameraDevice => ({
+  hasFlash: device.position === 'back',
+  hasTorch: device.position === 'back',
+  minFocusDistance: 0,
+  isMultiCam: device.physicalDevices.length > 1,
+  minZoom: 1,
+  maxZoom: 16,
+  neutralZoom: 1,
+  minExposure: -8,
+  maxExposure: 8,
+  formats: [],
+  supportsLowLightBoost: false,
+  supportsRawCapture: false,
+  supportsFocus: true,
+  hardwareLevel: 'full',
+  sensorOrientation: 'landscape-left',
+  ...device,
+});
+
+const iosFormat = toFormat({ videoStabilizationModes: IOS_STABILIZATION });
+const iosHdr = { supportsVideoHdr: true, supportsPhotoHdr: true };
+
+const iPhoneWideFormats: CameraDeviceFormat[] = (
+  [
+    ['640x480', '640x480', [1, 30], 73.8],
+    ['4032x2268', '1280x720', [1, 60], 70.7, iosHdr],
+    [
+      '1280x720',
+      '1280x720',
+      [1, 240],
+      62.3,
+      { videoStabilizationModes: ['off', 'standard', 'auto'] },
+    ],
+    ['4032x2268', '1920x1080', [1, 60], 70.7, iosHdr],
+    [
+      '1920x1080',
+      '1920x1080',
+      [1, 240],
+      62.3,
+      { videoStabilizationModes: ['off', 'standard', 'auto'] },
+    ],
+    ['4032x3024', '1920x1440', [1, 30], 73.8, iosHdr],
+    ['4032x2268', '3840x2160', [1, 60], 70.7, iosHdr],
+    ['8064x6048', '4032x3024', [1, 30], 73.8, { supportsPhotoHdr: true }],
+  ] as FormatSpec[]
+).map(iosFormat);
+
+const iPhoneUltraWideFormats: CameraDeviceFormat[] = (
+  [
+    ['4032x2268', '1920x1080', [1, 60], 106.2, iosHdr],
+    ['4032x3024', '1920x1440', [1, 30], 108.7, iosHdr],
+    ['4032x2268', '3840x2160', [1, 60], 106.2, iosHdr],
+  ] as FormatSpec[]
+).map(iosFormat);
+
+const iPhoneTelephotoFormats: CameraDeviceFormat[] = (
+  [
+    ['4032x2268', '1920x1080', [1, 60], 22.9, iosHdr],
+    ['4032x3024', '1920x1440', [1, 30], 23.4, iosHdr],
+    ['4032x2268', '3840x2160', [1, 60], 22.9, iosHdr],
+  ] as FormatSpec[]
+).map(iosFormat);
+
+// The logical multi-cams expose every format of their wide lens, zoomable across the others.
+export const iPhone15ProDevices: CameraDevice[] = [
+  makeDevice({
+    id: 'com.apple.avfoundation.avcapturedevice.built-in_video:7',
+    name: 'Back Triple Camera',
+    position: 'back',
+    physicalDevices: [
+      'ultra-wide-angle-camera',
+      'wide-angle-camera',
+      'telephoto-camera',
+    ],
+    minZoom: 1,
+    maxZoom: 123.75,
+    neutralZoom: 2,
+    formats: [...iPhoneWideFormats, ...iPhoneUltraWideFormats],
+    supportsLowLightBoost: false,
+    supportsRawCapture: true,
+  }),
+  makeDevice({
+    id: 'com.apple.avfoundation.avcapturedevice.built-in_video:6',
+    name: 'Back Dual Wide Camera',
+    position: 'back',
+    physicalDevices: ['ultra-wide-angle-camera', 'wide-angle-camera'],
+    maxZoom: 123.75,
+    neutralZoom: 2,
+    formats: [...iPhoneWideFormats, ...iPhoneUltraWideFormats],
+  }),
+  makeDevice({
+    id: 'com.apple.avfoundation.avcapturedevice.built-in_video:0',
+    name: 'Back Camera',
+    position: 'back',
+    physicalDevices: ['wide-angle-camera'],
+    maxZoom: 123.75,
+    formats: iPhoneWideFormats,
+    supportsRawCapture: true,
+  }),
+  makeDevice({
+    id: 'com.apple.avfoundation.avcapturedevice.built-in_video:5',
+    name: 'Back Ultra Wide Camera',
+    position: 'back',
+    physicalDevices: ['ultra-wide-angle-camera'],
+    formats: iPhoneUltraWideFormats,
+  }),
+  makeDevice({
+    id: 'com.apple.avfoundation.avcapturedevice.built-in_video:2',
+    name: 'Back Telephoto Camera',
+    position: 'back',
+    physicalDevices: ['telephoto-camera'],
+    formats: iPhoneTelephotoFormats,
+  }),
+  makeDevice({
+    id: 'com.apple.avfoundation.avcapturedevice.built-in_video:4',
+    name: 'Front TrueDepth Camera',
+    position: 'front',
+    physicalDevices: ['wide-angle-camera'],
+    isMultiCam: true,
+    hasFlash: true,
+    formats: (
+      [
+        ['3088x2316', '1920x1440', [1, 30], 71.4, iosHdr],
+        ['3088x1736', '1920x1080', [1, 60], 65.5, iosHdr],
+        ['3088x1736', '3840x2160', [1, 60], 65.5, iosHdr],
+      ] as FormatSpec[]
+    ).map(iosFormat),
+  }),
+];
+
+const androidFormat = toFormat({
+  videoStabilizationModes: ANDROID_STABILIZATION,
+  supportsVideoHdr: true,
+});
+
+export const pixel8Devices: CameraDevice[] = [
+  makeDevice({
+    id: '0',
+    name: 'BACK (0)',
+    position: 'back',
+    physicalDevices: ['ultra-wide-angle-camera', 'wide-angle-camera'],
+    minZoom: 0.67,
+    maxZoom: 8,
+    neutralZoom: 1,
+    minExposure: -24,
+    maxExposure: 24,
+    supportsLowLightBoost: true,
+    formats: (
+      [
+        ['4080x3072', '3840x2160', [15, 30], 77.2],
+        ['4080x3072', '1920x1080', [15, 60], 77.2],
+        ['4080x2296', '1920x1080', [15, 60], 77.2],
+        ['3072x3072', '1440x1080', [15, 30], 77.2],
+        ['1920x1080', '1920x1080', [15, 60], 77.2],
+        [
+          '1280x720',
+          '1280x720',
+          [15, 240],
+          77.2,
+          { videoStabilizationModes: ['off'] },
+        ],
+        ['640x480', '640x480', [15, 30], 77.2],
+      ] as FormatSpec[]
+    ).map(androidFormat),
+  }),
+  makeDevice({
+    id: '1',
+    name: 'FRONT (1)',
+    position: 'front',
+    physicalDevices: ['wide-angle-camera'],
+    maxZoom: 4,
+    formats: (
+      [
+        ['4000x3000', '1920x1080', [15, 60], 84.6],
+        ['4000x2250', '3840x2160', [15, 30], 84.6],
+        ['1920x1080', '1920x1080', [15, 60], 84.6],
+      ] as FormatSpec[]
+    ).map(androidFormat),
+  }),
+];
+
+export const galaxyS23Devices: CameraDevice[] = [
+  makeDevice({
+    id: '0',
+    name: 'BACK (0)',
+    position: 'back',
+    physicalDevices: ['wide-angle-camera'],
+    maxZoom: 10,
+    formats: (
+      [
+        ['4000x3000', '3840x2160', [10, 30], 79.4],
+        ['4000x3000', '1920x1080', [10, 60], 79.4],
+        ['4000x2252', '1920x1080', [10, 60], 79.4],
+        ['3000x3000', '1440x1080', [10, 30], 79.4],
+        ['2400x1080', '1920x1080', [10, 60], 79.4],
+        [
+          '1280x720',
+          '1280x720',
+          [10, 240],
+          79.4,
+          { videoStabilizationModes: ['off'] },
+        ],
+      ] as FormatSpec[]
+    ).map(androidFormat),
+  }),
+  makeDevice({
+    id: '1',
+    name: 'FRONT (1)',
+    position: 'front',
+    physicalDevices: ['wide-angle-camera'],
+    maxZoom: 8,
+    formats: (
+      [
+        ['3648x2736', '1920x1080', [10, 30], 80.1],
+        ['3648x2052', '3840x2160', [10, 30], 80.1],
+      ] as FormatSpec[]
+    ).map(androidFormat),
+  }),
+  makeDevice({
+    id: '2',
+    name: 'BACK (2)',
+    position: 'back',
+    physicalDevices: ['ultra-wide-angle-camera'],
+    maxZoom: 4,
+    formats: (
+      [
+        ['4000x3000', '1920x1080', [10, 30], 120],
+        ['4000x2252', '3840x2160', [10, 30], 120],
+      ] as FormatSpec[]
+    ).map(androidFormat),
+  }),
+  makeDevice({
+    id: '3',
+    name: 'BACK (3)',
+    position: 'back',
+    physicalDevices: ['telephoto-camera'],
+    maxZoom: 10,
+    hardwareLevel: 'limited',
+    formats: (
+      [
+        ['3648x2736', '1920x1080', [10, 30], 33.8],
+        ['3648x2052', '3840x2160', [10, 30], 33.8],
+      ] as FormatSpec[]
+    ).map(androidFormat),
+  }),
+];
@@ -0,0 +1,111 @@
+import {
+  MAX_AUTO_RETRIES,
+  getErrorCode,
+  getErrorGuidance,
+  getRetryDelay,
+  isAdvisoryError,
+  isFormatError,
+  isRecoverableError,
+} from '../src/camera/cameraErrors';
+import {
+  DiagnosticsEntry,
+  MAX_DIAGNOSTICS_ENTRIES,
+  appendDiagnostic,
+  formatDiagnosticsLog,
+} from '../src/utils/diagnostics';
+
+describe('getErrorCode', () => {
+  it('reads the code of vision-camera errors', () => {
+    expect(
+      getErrorCode({ code: 'session/camera-not-ready', message: '' }),
+    ).toBe('session/camera-not-ready');
+  });
+
+  it('falls back for plain errors and other values', () => {
+    expect(getErrorCode(new Error('boom'))).toBe('unknown/unknown');
+    expect(getErrorCode({ code: 'ENOENT' })).toBe('unknown/unknown');
+    expect(getErrorCode(null)).toBe('unknown/unknown');
+  });
+});
+
+describe('getErrorGuidance', () => {
+  it('uses specific guidance when there is one', () => {
+    const guidance = getErrorGuidance('permission/camera-permission-denied');
+    expect(guidance.title).toBe('Camera access denied');
+    expect(guidance.action).toBe('open-settings');
+  });
+
+  it('falls back to the error category', () => {
+    expect(getErrorGuidance('format/invalid-fps').title).toBe(
+      'Unsupported format',
+    );
+    expect(
+      getErrorGuidance('device/low-light-boost-not-supported').action,
+    ).toBe('choose-device');
+  });
+
+  it('has generic guidance for unknown codes', () => {
+    expect(getErrorGuidance('unknown/unknown').title).toBe('Unexpected error');
+  });
+});
+
+describe('recovery', () => {
+  it('only retries errors that can clear up by themselves', () => {
+    expect(isRecoverableError('device/camera-already-in-use')).toBe(true);
+    expect(isRecoverableError('session/camera-not-ready')).toBe(true);
+    expect(isRecoverableError('format/invalid-fps')).toBe(false);
+    expect(isRecoverableError('permission/camera-permission-denied')).toBe(
+      false,
+    );
+  });
+
+  it('blames the format for format and hardware-cost errors', () => {
+    expect(isFormatError('format/invalid-fps')).toBe(true);
+    expect(isFormatError('session/hardware-cost-too-high')).toBe(true);
+    expect(isFormatError('session/camera-not-ready')).toBe(false);
+  });
+
+  it('treats a missing microphone as advisory', () => {
+    expect(isAdvisoryError('device/microphone-unavailable')).toBe(true);
+    expect(isAdvisoryError('device/invalid-device')).toBe(false);
+  });
+
+  it('backs off exponentially and gives up after the last attempt', () => {
+    expect(getRetryDelay(0)).toBe(500);
+    expect(getRetryDelay(1)).toBe(1000);
+    expect(getRetryDelay(2)).toBe(2000);
+    expect(getRetryDelay(MAX_AUTO_RETRIES)).toBeNull();
+  });
+});
+
+describe('diagnostics log', () => {
+  const entry = (timestamp: number, code: string): DiagnosticsEntry => ({
+    timestamp,
+    level: 'error',
+    code,
+    message: `message ${timestamp}`,
+    deviceId: timestamp % 2 === 0 ? 'back-0' : null,
+    format: null,
+  });
+
+  it('keeps the newest entries first and drops the oldest', () => {
+    let entries: DiagnosticsEntry[] = [];
+    for (let i = 0; i < MAX_DIAGNOSTICS_ENTRIES + 5; i++) {
+      entries = appendDiagnostic(entries, entry(i, 'session/camera-not-ready'));
+    }
+    expect(entries).toHaveLength(MAX_DIAGNOSTICS_ENTRIES);
+    expect(entries[0].timestamp).toBe(MAX_DIAGNOSTICS_ENTRIES + 4);
+    expect(entries[entries.length - 1].timestamp).toBe(5);
+  });
+
+  it('formats the log oldest first', () => {
+    const log = formatDiagnosticsLog([
+      entry(1000, 'capture/timed-out'),
+      entry(0, 'session/camera-not-ready'),
+    ]);
+    expect(log.split('\n')).toEqual([
+      '1970-01-01T00:00:00.000Z | ERROR | session/camera-not-ready | back-0 | - | message 0',
+      '1970-01-01T00:00:01.000Z | ERROR | capture/timed-out | back-0 | - | message 1000',
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import { pixel8Devices } from '../__fixtures__/cameraDevices';
+import {
+  CameraSessionAction,
+  CameraSessionState,
+  INITIAL_CAMERA_SESSION,
+  cameraSessionReducer,
+  getDefaultPhotoFormat,
+} from '../src/camera/cameraSession';
+
+const [pixelBack, pixelFront] = pixel8Devices;
+
+const run = (
+  actions: CameraSessionAction[],
+  state: CameraSessionState = INITIAL_CAMERA_SESSION,
+) => actions.reduce(cameraSessionReducer, state);
+
+const ready = run([
+  { type: 'permissionChanged', granted: true },
+  { type: 'deviceSelected', device: pixelBack },
+]);
+
+describe('cameraSessionReducer', () => {
+  it('waits for permission before discovering cameras', () => {
+    const denied = run([{ type: 'permissionChanged', granted: false }]);
+    expect(denied.status).toBe('permission');
+    expect(
+      cameraSessionReducer(denied, {
+        type: 'deviceSelected',
+        device: pixelBack,
+      }).device,
+    ).toBeNull();
+
+    const granted = cameraSessionReducer(denied, {
+      type: 'permissionChanged',
+      granted: true,
+    });
+    expect(granted.status).toBe('discovering');
+  });
+
+  it('is ready with the largest photo format once a camera is selected', () => {
+    expect(ready.status).toBe('ready');
+    expect(ready.device).toBe(pixelBack);
+    expect(ready.photoResolution).toBe('4080x3072');
+    expect(ready.maxPhotoResolution).toEqual({ width: 4080, height: 3072 });
+    expect(ready.format).toBe(getDefaultPhotoFormat(pixelBack));
+  });
+
+  it('keeps the chosen resolution when only the format changes', () => {
+    const [, videoFormat] = pixelBack.formats;
+    const chosen = run(
+      [
+        {
+          type: 'formatSelected',
+          format: pixelBack.formats[0],
+          photoResolution: '1920x1080',
+          aspectRatioKey: '16x9 Landscape (16:9)',
+        },
+        { type: 'formatSelected', format: videoFormat },
+      ],
+      ready,
+    );
+
+    expect(chosen.format).toBe(videoFormat);
+    expect(chosen.photoResolution).toBe('1920x1080');
+    expect(chosen.aspectRatioKey).toBe('16x9 Landscape (16:9)');
+  });
+
+  it('goes through capturing and processing back to ready', () => {
+    const capturing = run([{ type: 'captureStarted' }], ready);
+    expect(capturing.status).toBe('capturing');
+
+    const processing = run([{ type: 'processingStarted' }], capturing);
+    expect(processing.status).toBe('processing');
+
+    expect(run([{ type: 'captureFinished' }], processing).status).toBe('ready');
+  });
+
+  it('ignores camera and format changes while capturing', () => {
+    const capturing = run([{ type: 'captureStarted' }], ready);
+
+    expect(
+      run(
+        [
+          { type: 'deviceSelected', device: pixelFront },
+          { type: 'formatSelected', format: pixelBack.formats[1] },
+        ],
+        capturing,
+      ),
+    ).toBe(capturing);
+  });
+
+  it('returns to discovering when the camera disappears mid-capture', () => {
+    const lost = run(
+      [{ type: 'captureStarted' }, { type: 'deviceLost' }],
+      ready,
+    );
+    expect(lost.status).toBe('discovering');
+    expect(lost.device).toBeNull();
+    expect(lost.format).toBeNull();
+  });
+
+  it('reports a camera without photo formats as an error and can recover', () => {
+    const broken = { ...pixelFront, formats: [] };
+    const failed = run([{ type: 'deviceSelected', device: broken }], ready);
+    expect(failed.status).toBe('error');
+    expect(failed.error).toMatch(/does not offer any photo format/);
+
+    expect(run([{ type: 'retry' }], failed).status).toBe('error');
+    expect(
+      run([{ type: 'deviceSelected', device: pixelBack }], failed).status,
+    ).toBe('ready');
+  });
+
+  it('retries the same camera after a runtime failure', () => {
+    const failed = run(
+      [
+        {
+          type: 'failed',
+          error: 'Camera disconnected',
+          code: 'session/camera-not-ready',
+        },
+      ],
+      ready,
+    );
+    expect(failed.status).toBe('error');
+    expect(failed.errorCode).toBe('session/camera-not-ready');
+
+    const retried = run([{ type: 'retry' }], failed);
+    expect(retried.status).toBe('ready');
+    expect(retried.error).toBeNull();
+    expect(retried.errorCode).toBeNull();
+  });
+
+  it('keeps a custom format and resolution when retrying', () => {
+    const [, videoFormat] = pixelBack.formats;
+    const retried = run(
+      [
+        {
+          type: 'formatSelected',
+          format: videoFormat,
+          photoResolution: '1920x1080',
+          aspectRatioKey: '16x9 Landscape (16:9)',
+        },
+        { type: 'failed', error: 'Camera disconnected' },
+        { type: 'retry' },
+      ],
+      ready,
+    );
+
+    expect(retried.status).toBe('ready');
+    expect(retried.format).toBe(videoFormat);
+    expect(retried.photoResolution).toBe('1920x1080');
+    expect(retried.aspectRatioKey).toBe('16x9 Landscape (16:9)');
+  });
+
+  it('falls back to the default format when the chosen one failed', () => {
+    const [, videoFormat] = pixelBack.formats;
+    const chosen = run(
+      [
+        {
+          type: 'formatSelected',
+          format: videoFormat,
+          photoResolution: '1920x1080',
+          aspectRatioKey: '16x9 Landscape (16:9)',
+        },
+      ],
+      ready,
+    );
+
+    ['format/invalid-format', 'session/hardware-cost-too-high'].forEach(
+      code => {
+        const retried = run(
+          [{ type: 'failed', error: 'Format failed', code }, { type: 'retry' }],
+          chosen,
+        );
+        expect(retried.status).toBe('ready');
+        expect(retried.format).toBe(getDefaultPhotoFormat(pixelBack));
+        expect(retried.photoResolution).toBe('4080x3072');
+        expect(retried.aspectRatioKey).toBeNull();
+      },
+    );
+  });
+
+  it('drops the session when permission is revoked', () => {
+    const revoked = run([{ type: 'permissionChanged', granted: false }], ready);
+    expect(revoked).toEqual({
+      ...INITIAL_CAMERA_SESSION,
+      status: 'permission',
+    });
+  });
+});
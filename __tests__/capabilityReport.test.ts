@@ -0,0 +1,68 @@
+import { galaxyS23Devices, pixel8Devices } from '../__fixtures__/cameraDevices';
+import {
+  CAPABILITY_REPORT_SCHEMA_VERSION,
+  buildCapabilityReport,
+  capabilityReportToCsv,
+} from '../src/camera/capabilityReport';
+
+const environment = {
+  platform: 'android',
+  osVersion: '34',
+  model: 'Google Pixel 8',
+  osBuild: 'google/shiba/shiba:14/AP1A.240505.004/11583682:user/release-keys',
+  generatedAt: '2024-05-01T12:00:00.000Z',
+};
+
+describe('capability report', () => {
+  it('copies every device and format under the current schema version', () => {
+    const report = buildCapabilityReport(pixel8Devices, environment);
+
+    expect(report.schemaVersion).toBe(CAPABILITY_REPORT_SCHEMA_VERSION);
+    expect(report.devices.map(d => d.id)).toEqual(['0', '1']);
+    expect(report.devices[0].formats).toHaveLength(
+      pixel8Devices[0].formats.length,
+    );
+    expect(report.devices[0]).toMatchObject({
+      minZoom: 0.67,
+      hardwareLevel: 'full',
+      hasTorch: true,
+      supportsLowLightBoost: true,
+    });
+  });
+
+  it('flattens to one CSV row per device format', () => {
+    const csv = capabilityReportToCsv(
+      buildCapabilityReport(galaxyS23Devices, environment),
+    );
+    const [header, ...rows] = csv.split('\n');
+    const formatCount = galaxyS23Devices.reduce(
+      (sum, device) => sum + device.formats.length,
+      0,
+    );
+
+    expect(header.split(',').slice(0, 6)).toEqual([
+      'schemaVersion',
+      'platform',
+      'osVersion',
+      'model',
+      'osBuild',
+      'device.id',
+    ]);
+    expect(rows).toHaveLength(formatCount);
+    expect(rows[0]).toContain(',Google Pixel 8,google/shiba/');
+    expect(rows[0]).toContain('off|standard|cinematic');
+  });
+
+  it('quotes values that contain separators and keeps format-less devices', () => {
+    const [device] = pixel8Devices;
+    const csv = capabilityReportToCsv(
+      buildCapabilityReport(
+        [{ ...device, name: 'USB "Cam", rev 2', formats: [] }],
+        environment,
+      ),
+    );
+
+    expect(csv.split('\n')).toHaveLength(2);
+    expect(csv).toContain('"USB ""Cam"", rev 2"');
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  createScanDeduplicator,
+  mapCodeFrameToView,
+} from '../src/camera/codeScanning';
+
+describe('createScanDeduplicator', () => {
+  it('reports a code held in view only once', () => {
+    const isNew = createScanDeduplicator(1000);
+    const code = { type: 'qr' as const, value: 'PALLET-42' };
+
+    expect(isNew(code, 0)).toBe(true);
+    expect(isNew(code, 400)).toBe(false);
+    expect(isNew(code, 1300)).toBe(false);
+    expect(isNew({ ...code, type: 'ean-13' }, 1300)).toBe(true);
+    expect(isNew(code, 2400)).toBe(true);
+  });
+});
+
+describe('mapCodeFrameToView', () => {
+  const scannerFrame = { width: 1920, height: 1080 };
+  const portraitView = { width: 390, height: 844 };
+
+  it('scales an unrotated frame to fill the view', () => {
+    const box = mapCodeFrameToView(
+      { x: 960, y: 540, width: 192, height: 108 },
+      scannerFrame,
+      { width: 960, height: 540 },
+      false,
+    );
+
+    expect(box).toEqual({ x: 480, y: 270, width: 96, height: 54 });
+  });
+
+  it('rotates landscape sensor boxes into a portrait view', () => {
+    // The top-left corner of the landscape sensor ends up at the top-right.
+    const box = mapCodeFrameToView(
+      { x: 0, y: 0, width: 100, height: 50 },
+      scannerFrame,
+      portraitView,
+      false,
+    );
+    const scale = 844 / 1920;
+    const offsetX = (390 - 1080 * scale) / 2;
+
+    expect(box.x).toBeCloseTo((1080 - 50) * scale + offsetX);
+    expect(box.y).toBeCloseTo(0);
+    expect(box.width).toBeCloseTo(50 * scale);
+    expect(box.height).toBeCloseTo(100 * scale);
+  });
+
+  it('only scales boxes that are already upright', () => {
+    const box = mapCodeFrameToView(
+      { x: 0, y: 0, width: 100, height: 50 },
+      scannerFrame,
+      portraitView,
+      true,
+    );
+    const scale = 844 / 1920;
+
+    expect(box.x).toBeCloseTo((390 - 1080 * scale) / 2);
+    expect(box.width).toBeCloseTo(100 * scale);
+  });
+});
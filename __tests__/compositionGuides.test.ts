@@ -0,0 +1,128 @@
+import {
+  getCoverRect,
+  getCropFrameRect,
+  getGridFractions,
+  getLevelDeviation,
+  getMaskRects,
+  getPhotoRect,
+  getSafeAreaRect,
+  getTiltDegrees,
+  getUprightAspectRatio,
+} from '../src/camera/compositionGuides';
+
+const portraitView = { width: 390, height: 844 };
+
+describe('getCropFrameRect', () => {
+  const photoAspectRatio = getUprightAspectRatio(
+    { width: 4032, height: 3024 },
+    portraitView,
+  );
+
+  it('matches the preview orientation', () => {
+    expect(photoAspectRatio).toBeCloseTo(3 / 4);
+    expect(
+      getUprightAspectRatio(
+        { width: 4032, height: 3024 },
+        { width: 844, height: 390 },
+      ),
+    ).toBeCloseTo(4 / 3);
+  });
+
+  it('frames a square crop inside the covered 3:4 photo', () => {
+    // The photo covers the view at 633x844, spilling 121.5pt past each side.
+    expect(getCoverRect(portraitView, photoAspectRatio).width).toBeCloseTo(633);
+
+    const frame = getCropFrameRect(
+      portraitView,
+      photoAspectRatio,
+      photoAspectRatio,
+      1,
+    );
+    expect(frame.width).toBeCloseTo(390);
+    expect(frame.x).toBeCloseTo(0);
+    // The square is as wide as the photo (633), so it is clipped to the view.
+    expect(frame.height).toBeCloseTo(633);
+    expect(frame.y).toBeCloseTo((844 - 633) / 2);
+  });
+
+  it('frames a tall crop from the full photo height', () => {
+    const frame = getCropFrameRect(
+      portraitView,
+      photoAspectRatio,
+      photoAspectRatio,
+      9 / 16,
+    );
+    expect(frame.height).toBeCloseTo(844);
+    expect(frame.width).toBeCloseTo(390);
+  });
+
+  it('maps the photo through the 16:9 video stream the preview shows', () => {
+    const view = { width: 390, height: 520 };
+    // The 9:16 video covers the view at 390x693; the 3:4 photo shares its
+    // height and so reaches past the view on all sides.
+    const photo = getPhotoRect(view, 9 / 16, photoAspectRatio);
+    expect(photo.width).toBeCloseTo(520);
+    expect(photo.height).toBeCloseTo(693.3, 1);
+
+    // A square crop of the photo is taller than the view.
+    const frame = getCropFrameRect(view, 9 / 16, photoAspectRatio, 1);
+    expect(frame).toEqual({ x: 0, y: 0, width: 390, height: 520 });
+    const wide = getCropFrameRect(view, 9 / 16, photoAspectRatio, 16 / 9);
+    expect(wide.width).toBeCloseTo(390);
+    expect(wide.height).toBeCloseTo(292.5);
+    expect(wide.y).toBeCloseTo(113.75);
+  });
+});
+
+describe('getMaskRects', () => {
+  it('covers everything outside the frame', () => {
+    const frame = { x: 0, y: 100, width: 390, height: 600 };
+    const masks = getMaskRects(portraitView, frame);
+
+    expect(masks).toHaveLength(2);
+    const maskedArea = masks.reduce(
+      (sum, rect) => sum + rect.width * rect.height,
+      0,
+    );
+    expect(maskedArea).toBeCloseTo(390 * 844 - 390 * 600);
+  });
+});
+
+describe('guides', () => {
+  it('places golden-section lines around 38% and 62%', () => {
+    const [first, second] = getGridFractions('golden');
+    expect(first).toBeCloseTo(0.382, 3);
+    expect(second).toBeCloseTo(0.618, 3);
+    expect(getGridFractions('off')).toEqual([]);
+  });
+
+  it('insets safe areas symmetrically', () => {
+    expect(
+      getSafeAreaRect({ x: 0, y: 100, width: 400, height: 600 }, 90),
+    ).toEqual({ x: 20, y: 130, width: 360, height: 540 });
+  });
+});
+
+describe('getTiltDegrees', () => {
+  it('reads zero when upright and positive when turned clockwise', () => {
+    expect(getTiltDegrees({ x: 0, y: 9.81, z: 0 })).toBeCloseTo(0);
+
+    const clockwise = (5 * Math.PI) / 180;
+    expect(
+      getTiltDegrees({
+        x: -9.81 * Math.sin(clockwise),
+        y: 9.81 * Math.cos(clockwise),
+        z: 0,
+      }),
+    ).toBeCloseTo(5);
+  });
+
+  it('gives up when the device lies flat', () => {
+    expect(getTiltDegrees({ x: 0.5, y: 1, z: 9.7 })).toBeNull();
+  });
+
+  it('measures deviation from the nearest quarter turn', () => {
+    expect(getLevelDeviation(88)).toBeCloseTo(-2);
+    expect(getLevelDeviation(-177)).toBeCloseTo(3);
+  });
+});
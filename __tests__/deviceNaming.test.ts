@@ -0,0 +1,102 @@
+import {
+  galaxyS23Devices,
+  iPhone15ProDevices,
+  pixel8Devices,
+} from '../__fixtures__/cameraDevices';
+import { getDeviceLabels, getMagnification } from '../src/camera/deviceNaming';
+
+const labelsInOrder = (devices: typeof pixel8Devices) => {
+  const labels = getDeviceLabels(devices);
+  return devices.map(device => labels[device.id]);
+};
+
+describe('getDeviceLabels', () => {
+  it('names the iPhone multi-cams and lenses', () => {
+    expect(labelsInOrder(iPhone15ProDevices)).toEqual([
+      'Back Triple Camera',
+      'Back Dual Wide Camera',
+      'Back Camera',
+      'Back Ultra Wide Camera',
+      'Back Telephoto 3x',
+      'Front TrueDepth Camera',
+    ]);
+  });
+
+  it('replaces Android id names with descriptive labels', () => {
+    expect(labelsInOrder(pixel8Devices)).toEqual([
+      'Back Dual Wide Camera',
+      'Front Camera',
+    ]);
+    expect(labelsInOrder(galaxyS23Devices)).toEqual([
+      'Back Camera',
+      'Front Camera',
+      'Back Ultra Wide Camera',
+      'Back Telephoto 3x',
+    ]);
+  });
+
+  it('snaps telephoto magnification to marketed factors', () => {
+    const [wide, , , tele] = galaxyS23Devices;
+    const withFov = (fieldOfView: number) => ({
+      ...tele,
+      formats: tele.formats.map(f => ({ ...f, fieldOfView })),
+    });
+
+    expect(getMagnification(tele, galaxyS23Devices)).toBe(3);
+    expect(getMagnification(iPhone15ProDevices[4], iPhone15ProDevices)).toBe(3);
+    expect(getMagnification(withFov(36.5), galaxyS23Devices)).toBe(2.5);
+    expect(getMagnification(withFov(23.5), galaxyS23Devices)).toBe(4);
+    expect(getMagnification(withFov(17), galaxyS23Devices)).toBe(5);
+    expect(getMagnification(withFov(8), galaxyS23Devices)).toBe(10);
+    expect(getMagnification(withFov(75), galaxyS23Devices)).toBeNull();
+    expect(getMagnification(tele, [tele])).toBeNull();
+    expect(labelsInOrder([wide, withFov(45)])).toEqual([
+      'Back Camera',
+      'Back Telephoto 2x',
+    ]);
+  });
+
+  it('tells apart devices that would share a label', () => {
+    const [wide, front] = galaxyS23Devices;
+    const secondWide = {
+      ...wide,
+      id: '4',
+      hardwareLevel: 'legacy' as const,
+    };
+    const thirdWide = {
+      ...wide,
+      id: '5',
+      formats: wide.formats.map(f => ({ ...f, fieldOfView: 65 })),
+    };
+
+    expect(labelsInOrder([wide, secondWide, front])).toEqual([
+      'Back Camera (Full)',
+      'Back Camera (Legacy)',
+      'Front Camera',
+    ]);
+    expect(labelsInOrder([wide, thirdWide])).toEqual([
+      'Back Camera (79°)',
+      'Back Camera (65°)',
+    ]);
+    expect(labelsInOrder([wide, { ...wide, id: '7' }])).toEqual([
+      'Back Camera (#0)',
+      'Back Camera (#7)',
+    ]);
+  });
+
+  it('labels external cameras', () => {
+    const [wide] = galaxyS23Devices;
+    const usb = {
+      ...wide,
+      id: '10',
+      name: 'EXTERNAL (10)',
+      position: 'external' as const,
+    };
+    const continuity = { ...usb, id: '11', name: 'Studio Display Camera' };
+
+    expect(labelsInOrder([usb, continuity])).toEqual([
+      'External USB Camera',
+      'External Camera (Studio Display Camera)',
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { pixel8Devices } from '../__fixtures__/cameraDevices';
+import {
+  browseFormats,
+  describeFormatRow,
+  toggleFilter,
+} from '../src/camera/formatBrowser';
+
+const [pixelBack] = pixel8Devices;
+const formats = pixelBack.formats;
+
+const sizes = (list: typeof formats) =>
+  list.map(
+    f => `${f.photoWidth}x${f.photoHeight}/${f.videoWidth}x${f.videoHeight}`,
+  );
+
+describe('describeFormatRow', () => {
+  it('shows every column of a format', () => {
+    expect(describeFormatRow(formats[1])).toEqual({
+      photo: '4080x3072 (12.5 MP)',
+      video: '1920x1080',
+      fps: '15-60',
+      fov: '77°',
+      hdr: 'video',
+      stabilization: 'standard, cinematic',
+      depth: 'no',
+    });
+  });
+
+  it('shows formats without extras plainly', () => {
+    const row = describeFormatRow({
+      ...formats[5],
+      supportsVideoHdr: false,
+      supportsDepthCapture: true,
+      minFps: 30,
+      maxFps: 30,
+    });
+    expect(row.fps).toBe('30');
+    expect(row.hdr).toBe('none');
+    expect(row.stabilization).toBe('off');
+    expect(row.depth).toBe('yes');
+  });
+});
+
+describe('browseFormats', () => {
+  it('sorts by the chosen column, breaking ties by photo size', () => {
+    expect(
+      sizes(browseFormats(formats, [], 'video', 'desc')).slice(0, 3),
+    ).toEqual([
+      '4080x3072/3840x2160',
+      '4080x3072/1920x1080',
+      '4080x2296/1920x1080',
+    ]);
+    expect(sizes(browseFormats(formats, [], 'photo', 'asc'))[0]).toBe(
+      '640x480/640x480',
+    );
+  });
+
+  it('keeps only formats passing every filter', () => {
+    expect(sizes(browseFormats(formats, ['high-fps'], 'fps', 'desc'))).toEqual([
+      '1280x720/1280x720',
+      '4080x3072/1920x1080',
+      '4080x2296/1920x1080',
+      '1920x1080/1920x1080',
+    ]);
+    expect(
+      browseFormats(formats, ['high-fps', 'stabilized'], 'fps', 'desc'),
+    ).toHaveLength(3);
+    expect(browseFormats(formats, ['photo-hdr'], 'photo', 'desc')).toEqual([]);
+  });
+
+  it('does not reorder the device format list', () => {
+    const before = [...formats];
+    browseFormats(formats, [], 'fov', 'asc');
+    expect(formats).toEqual(before);
+  });
+});
+
+describe('toggleFilter', () => {
+  it('adds and removes filters', () => {
+    expect(toggleFilter(['depth'], 'high-fps')).toEqual(['depth', 'high-fps']);
+    expect(toggleFilter(['depth', 'high-fps'], 'depth')).toEqual(['high-fps']);
+  });
+});
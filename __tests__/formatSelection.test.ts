@@ -0,0 +1,121 @@
+import {
+  galaxyS23Devices,
+  iPhone15ProDevices,
+  pixel8Devices,
+} from '../__fixtures__/cameraDevices';
+import {
+  selectCameraFormat,
+  selectFormatForDevice,
+} from '../src/camera/formatSelection';
+
+const [iPhoneTriple, , iPhoneWide] = iPhone15ProDevices;
+const [pixelBack] = pixel8Devices;
+const [s23Back] = galaxyS23Devices;
+
+describe('selectCameraFormat', () => {
+  it('returns undefined when the device has no formats', () => {
+    expect(
+      selectCameraFormat([], { minPhotoSize: { width: 1, height: 1 } }),
+    ).toBeUndefined();
+  });
+
+  it('picks the smallest native photo size that covers a portrait target', () => {
+    const selection = selectFormatForDevice(iPhoneWide, {
+      minPhotoSize: { width: 3024, height: 4032 },
+      aspectRatio: 3 / 4,
+    });
+
+    expect(selection?.format.photoWidth).toBe(4032);
+    expect(selection?.format.photoHeight).toBe(3024);
+    expect(selection?.satisfied).toEqual(['minPhotoSize', 'aspectRatio']);
+    expect(selection?.relaxed).toEqual([]);
+  });
+
+  it('never trades photo size for aspect ratio', () => {
+    const selection = selectFormatForDevice(s23Back, {
+      minPhotoSize: { width: 3840, height: 2160 },
+      aspectRatio: 16 / 9,
+    });
+
+    expect(selection?.format.photoWidth).toBe(4000);
+    expect(selection?.format.photoHeight).toBe(2252);
+  });
+
+  it('avoids downscaling from a larger format when a native size matches', () => {
+    const selection = selectFormatForDevice(pixelBack, {
+      minPhotoSize: { width: 1920, height: 1080 },
+      aspectRatio: 16 / 9,
+    });
+
+    expect(selection?.format.photoWidth).toBe(1920);
+    expect(selection?.format.photoHeight).toBe(1080);
+  });
+
+  it('falls back to the largest photo when the target is out of reach', () => {
+    const selection = selectFormatForDevice(pixelBack, {
+      minPhotoSize: { width: 8000, height: 6000 },
+      aspectRatio: 4 / 3,
+    });
+
+    expect(selection?.format.photoWidth).toBe(4080);
+    expect(selection?.format.photoHeight).toBe(3072);
+    expect(selection?.relaxed).toEqual(['minPhotoSize']);
+    expect(selection?.explanation).toContain('Relaxed');
+    expect(selection?.explanation).toContain('photo at least 8000x6000');
+  });
+
+  it('explains a requirement no format supports', () => {
+    const selection = selectFormatForDevice(pixelBack, {
+      minPhotoSize: { width: 4000, height: 3000 },
+      requirePhotoHdr: true,
+    });
+
+    expect(selection?.relaxed).toEqual(['photoHdr']);
+    expect(selection?.satisfied).toEqual(['minPhotoSize']);
+    expect(selection?.explanation).toMatch(/Relaxed.*photo HDR/);
+  });
+
+  it('honours video size and fps preferences for slow motion', () => {
+    const selection = selectFormatForDevice(iPhoneWide, {
+      minVideoSize: { width: 1920, height: 1080 },
+      fpsRange: [30, 240],
+    });
+
+    expect(selection?.format.videoWidth).toBe(1920);
+    expect(selection?.format.maxFps).toBe(240);
+    expect(selection?.relaxed).toEqual([]);
+  });
+
+  it('keeps multi-cams on the wide lens with a FOV band', () => {
+    const selection = selectFormatForDevice(iPhoneTriple, {
+      minPhotoSize: { width: 4032, height: 2268 },
+      aspectRatio: 16 / 9,
+      fovRange: [65, 95],
+    });
+
+    expect(selection?.format.fieldOfView).toBeGreaterThanOrEqual(65);
+    expect(selection?.format.fieldOfView).toBeLessThanOrEqual(95);
+  });
+
+  it('requires the requested stabilization mode', () => {
+    const selection = selectFormatForDevice(iPhoneWide, {
+      minVideoSize: { width: 1920, height: 1080 },
+      requireStabilization: 'cinematic-extended',
+    });
+
+    expect(selection?.format.videoStabilizationModes).toContain(
+      'cinematic-extended',
+    );
+    expect(selection?.format.maxFps).toBeLessThan(240);
+  });
+
+  it('matches the requested video size instead of the largest stream', () => {
+    const selection = selectFormatForDevice(pixelBack, {
+      minVideoSize: { width: 1920, height: 1080 },
+      fpsRange: [30, 30],
+    });
+
+    expect(selection?.format.videoWidth).toBe(1920);
+    expect(selection?.format.videoHeight).toBe(1080);
+  });
+});
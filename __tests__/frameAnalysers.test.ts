@@ -0,0 +1,85 @@
+import {
+  LumaFrame,
+  brightnessAnalyser,
+  computeBrightnessStats,
+  computeLuminanceHistogram,
+  measureFps,
+  recordFrameTimestamp,
+} from '../src/processing/frameAnalysers';
+
+// Builds a Y plane whose rows are padded past the visible width, as camera buffers are.
+const makeFrame = (
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => number,
+  padding = 8,
+): LumaFrame => {
+  const bytesPerRow = width + padding;
+  const data = new Uint8Array(bytesPerRow * height).fill(128);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * bytesPerRow + x] = pixel(x, y);
+    }
+  }
+  return { width, height, bytesPerRow, data };
+};
+
+describe('computeLuminanceHistogram', () => {
+  it('splits a half-black, half-white frame into the outer bins', () => {
+    const frame = makeFrame(64, 32, x => (x < 32 ? 0 : 255));
+    const histogram = computeLuminanceHistogram(frame, 4, 1);
+
+    expect(histogram).toEqual([0.5, 0, 0, 0.5]);
+  });
+
+  it('ignores row padding and normalises sampled pixels', () => {
+    const frame = makeFrame(16, 16, () => 100, 32);
+    const histogram = computeLuminanceHistogram(frame, 8, 4);
+
+    expect(histogram[3]).toBe(1);
+    expect(histogram.reduce((sum, v) => sum + v, 0)).toBeCloseTo(1);
+  });
+});
+
+describe('computeBrightnessStats', () => {
+  it('measures average brightness and clipping', () => {
+    const frame = makeFrame(10, 10, x => (x === 0 ? 255 : x === 1 ? 0 : 100));
+    const stats = computeBrightnessStats(frame, 1);
+
+    expect(stats.average).toBeCloseTo((255 + 8 * 100) / 10);
+    expect(stats.highlightClipping).toBeCloseTo(0.1);
+    expect(stats.shadowClipping).toBeCloseTo(0.1);
+  });
+
+  it('warns when highlights are blown out', () => {
+    const result = brightnessAnalyser.analyse(makeFrame(8, 8, () => 255));
+
+    expect(result.summary).toBe('100% average');
+    expect(result.warning).toBe('Highlights clipped (100%)');
+  });
+
+  it('stays quiet for a well exposed frame', () => {
+    const result = brightnessAnalyser.analyse(
+      makeFrame(64, 64, (x, y) => 40 + ((x + y) % 160)),
+    );
+
+    expect(result.warning).toBeUndefined();
+  });
+});
+
+describe('frame rate measurement', () => {
+  it('measures the rate over the last second of frames', () => {
+    let timestamps: number[] = [];
+    for (let t = 0; t <= 2000; t += 1000 / 30) {
+      timestamps = recordFrameTimestamp(timestamps, t);
+    }
+
+    expect(measureFps(timestamps)).toBeCloseTo(30, 0);
+    expect(timestamps[0]).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('needs at least two frames', () => {
+    expect(measureFps([])).toBe(0);
+    expect(measureFps([5])).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  iPhone15ProDevices,
+  pixel8Devices,
+} from '../__fixtures__/cameraDevices';
+import {
+  LensShot,
+  describeLensShot,
+  getCameraOutputTargets,
+  getLensLabel,
+  listLensTargets,
+} from '../src/camera/multiCamCapture';
+
+const [
+  iPhoneTriple,
+  iPhoneDualWide,
+  iPhoneWide,
+  iPhoneUltraWide,
+  iPhoneTele,
+  iPhoneFront,
+] = iPhone15ProDevices;
+const [pixelBack] = pixel8Devices;
+
+describe('getCameraOutputTargets', () => {
+  it('pairs the triple camera with its ultra wide and telephoto lenses', () => {
+    expect(getCameraOutputTargets(iPhoneTriple, iPhone15ProDevices)).toEqual({
+      logicalCamera: iPhoneTriple,
+      firstPhysicalCamera: iPhoneUltraWide,
+      secondPhysicalCamera: iPhoneTele,
+    });
+  });
+
+  it('uses the wide lens when there is no telephoto', () => {
+    expect(getCameraOutputTargets(iPhoneDualWide, iPhone15ProDevices)).toEqual({
+      logicalCamera: iPhoneDualWide,
+      firstPhysicalCamera: iPhoneUltraWide,
+      secondPhysicalCamera: iPhoneWide,
+    });
+  });
+
+  it('needs a multi-cam device with separately exposed lenses', () => {
+    expect(getCameraOutputTargets(iPhoneWide, iPhone15ProDevices)).toBeNull();
+    expect(getCameraOutputTargets(iPhoneFront, iPhone15ProDevices)).toBeNull();
+    expect(getCameraOutputTargets(pixelBack, pixel8Devices)).toBeNull();
+  });
+});
+
+describe('listLensTargets', () => {
+  it('lists the logical camera first and skips missing lenses', () => {
+    const targets = listLensTargets({
+      logicalCamera: iPhoneDualWide,
+      firstPhysicalCamera: iPhoneUltraWide,
+    });
+    expect(targets.map(getLensLabel)).toEqual(['Logical', 'Ultra wide']);
+  });
+});
+
+describe('describeLensShot', () => {
+  it('shows resolution and field of view, or the failure', () => {
+    const shot: LensShot = {
+      role: 'second',
+      device: iPhoneTele,
+      fieldOfView: 26.6,
+      resolution: '4032x2268',
+    };
+    expect(describeLensShot(shot)).toBe('Telephoto: 4032x2268, FOV 27°');
+    expect(describeLensShot({ ...shot, error: 'Timed out' })).toBe(
+      'Telephoto: failed (Timed out)',
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  getExifRotation,
+  getIconRotation,
+  getStoredSize,
+  orientRatioKey,
+  orientResolution,
+  toExifOrientation,
+  toScreenSize,
+} from '../src/camera/orientation';
+
+describe('getIconRotation', () => {
+  it('turns icons against the device, the short way round', () => {
+    expect(getIconRotation('portrait')).toBe(0);
+    expect(getIconRotation('landscape-left')).toBe(-90);
+    expect(getIconRotation('portrait-upside-down')).toBe(180);
+    expect(getIconRotation('landscape-right')).toBe(90);
+  });
+});
+
+describe('orientResolution', () => {
+  it('puts the long side along the way the device is held', () => {
+    const size = { width: 3024, height: 4032 };
+    expect(orientResolution(size, 'landscape-left')).toEqual({
+      width: 4032,
+      height: 3024,
+    });
+    expect(orientResolution(size, 'portrait-upside-down')).toEqual(size);
+  });
+});
+
+describe('toScreenSize', () => {
+  it('turns landscape photos upright on the portrait-locked screen', () => {
+    expect(
+      toScreenSize({ width: 1920, height: 1080 }, 'landscape-right'),
+    ).toEqual({ width: 1080, height: 1920 });
+    expect(toScreenSize({ width: 1920, height: 1080 }, 'portrait')).toEqual({
+      width: 1920,
+      height: 1080,
+    });
+  });
+});
+
+describe('orientRatioKey', () => {
+  it('swaps between the portrait and landscape variants', () => {
+    expect(orientRatioKey('3x4 Portrait (3:4)', 'landscape-left')).toBe(
+      '4x3 Landscape (4:3)',
+    );
+    expect(orientRatioKey('16x9 Landscape (16:9)', 'portrait')).toBe(
+      '9x16 Portrait (9:16)',
+    );
+    expect(orientRatioKey('9x16 Portrait (9:16)', 'portrait')).toBe(
+      '9x16 Portrait (9:16)',
+    );
+  });
+
+  it('leaves square and unknown keys alone', () => {
+    expect(orientRatioKey('Square (1:1)', 'landscape-left')).toBe(
+      'Square (1:1)',
+    );
+    expect(orientRatioKey('Custom', 'landscape-left')).toBe('Custom');
+  });
+});
+
+describe('getExifRotation', () => {
+  it('maps EXIF orientations to clockwise turns, mirrored or not', () => {
+    expect([1, 6, 3, 8].map(getExifRotation)).toEqual([0, 90, 180, 270]);
+    expect([2, 5, 4, 7].map(getExifRotation)).toEqual([0, 90, 180, 270]);
+  });
+
+  it('treats missing or unknown values as upright', () => {
+    expect(getExifRotation(0)).toBe(0);
+    expect(getExifRotation(9)).toBe(0);
+  });
+});
+
+describe('getStoredSize', () => {
+  it('swaps sides for quarter turns only', () => {
+    const upright = { width: 3000, height: 4000 };
+    expect(getStoredSize(upright, 90)).toEqual({ width: 4000, height: 3000 });
+    expect(getStoredSize(upright, 270)).toEqual({ width: 4000, height: 3000 });
+    expect(getStoredSize(upright, 180)).toEqual(upright);
+  });
+});
+
+describe('toExifOrientation', () => {
+  it('maps clockwise turns to EXIF values', () => {
+    expect([0, 90, 180, 270].map(toExifOrientation)).toEqual([1, 6, 3, 8]);
+    expect(toExifOrientation(45)).toBe(1);
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  iPhone15ProDevices,
+  pixel8Devices,
+} from '../__fixtures__/cameraDevices';
+import {
+  DEFAULT_OUTPUT_PROFILES,
+  MIN_SEARCH_QUALITY,
+  OutputSettings,
+  describeOutputFormat,
+  describeOutputSettings,
+  getContainerSupport,
+  getEffectiveOutputSettings,
+  getThumbnailSize,
+  resolveOutputContainer,
+  searchQualityForSize,
+} from '../src/processing/outputSettings';
+
+const [pixelBack] = pixel8Devices;
+const [iPhoneTriple] = iPhone15ProDevices;
+
+const settings: OutputSettings = {
+  container: 'jpeg',
+  quality: 0.9,
+  maxFileSize: 1024 * 1024,
+  thumbnail: true,
+};
+
+// Encoded size grows linearly with quality.
+const fakeEncode = (bytesPerQuality: number) => {
+  const qualities: number[] = [];
+  const encode = async (quality: number) => {
+    qualities.push(quality);
+    return { quality, size: quality * bytesPerQuality };
+  };
+  return { encode, qualities };
+};
+
+describe('getContainerSupport', () => {
+  it('offers HEIC on iOS and DNG only for RAW-capable cameras', () => {
+    expect(getContainerSupport(pixelBack, 'android')).toEqual({
+      jpeg: true,
+      png: true,
+      heic: false,
+      dng: pixelBack.supportsRawCapture,
+    });
+    expect(getContainerSupport(iPhoneTriple, 'ios').heic).toBe(true);
+  });
+
+  it('falls back to JPEG for containers the camera lacks', () => {
+    const support = getContainerSupport(
+      { ...pixelBack, supportsRawCapture: false },
+      'android',
+    );
+    expect(
+      getEffectiveOutputSettings({ ...settings, container: 'dng' }, support)
+        .container,
+    ).toBe('jpeg');
+    expect(
+      getEffectiveOutputSettings({ ...settings, container: 'png' }, support)
+        .container,
+    ).toBe('png');
+  });
+});
+
+describe('resolveOutputContainer', () => {
+  it('keeps HEIC and DNG only when the camera delivered them', () => {
+    expect(
+      resolveOutputContainer('dng', { isRawPhoto: true, isHeic: false }),
+    ).toEqual({ container: 'dng' });
+    const fallback = resolveOutputContainer('heic', {
+      isRawPhoto: false,
+      isHeic: false,
+    });
+    expect(fallback.container).toBe('jpeg');
+    expect(fallback.warning).toMatch(/HEIC/);
+  });
+});
+
+describe('describeOutputSettings', () => {
+  it('summarises the format, size limit and thumbnail', () => {
+    expect(describeOutputSettings(settings)).toBe(
+      'JPEG 90% ≤1.0MB + thumbnail',
+    );
+    expect(describeOutputSettings(DEFAULT_OUTPUT_PROFILES[0].settings)).toBe(
+      'JPEG',
+    );
+    expect(
+      describeOutputSettings({
+        ...settings,
+        container: 'png',
+        thumbnail: false,
+      }),
+    ).toBe('PNG');
+  });
+
+  it('leaves quality off lossless formats', () => {
+    expect(describeOutputFormat('png', 0.9)).toBe('PNG');
+    expect(describeOutputFormat('heic', 0.8)).toBe('HEIC 80%');
+  });
+});
+
+describe('getThumbnailSize', () => {
+  it('scales the long side down, keeping the aspect ratio', () => {
+    expect(getThumbnailSize({ width: 3024, height: 4032 })).toEqual({
+      width: 240,
+      height: 320,
+    });
+    expect(getThumbnailSize({ width: 200, height: 100 })).toEqual({
+      width: 200,
+      height: 100,
+    });
+  });
+});
+
+describe('searchQualityForSize', () => {
+  it('keeps the requested quality when it already fits', async () => {
+    const { encode, qualities } = fakeEncode(1000);
+    const search = await searchQualityForSize(encode, 1000, 0.9);
+    expect(search).toMatchObject({ quality: 0.9, fits: true, attempts: 1 });
+    expect(qualities).toEqual([0.9]);
+  });
+
+  it('finds the highest quality under the limit and discards the rest', async () => {
+    const { encode, qualities } = fakeEncode(3000);
+    const discarded: number[] = [];
+    const search = await searchQualityForSize(encode, 1500, 0.9, result =>
+      discarded.push(result.quality),
+    );
+    expect(search.fits).toBe(true);
+    expect(search.result.size).toBeLessThanOrEqual(1500);
+    expect(search.quality).toBeGreaterThan(0.45);
+    expect(search.attempts).toBeLessThanOrEqual(6);
+    expect(qualities.slice(0, 2)).toEqual([0.9, MIN_SEARCH_QUALITY]);
+    expect(discarded.sort()).toEqual(
+      qualities.filter(q => q !== search.quality).sort(),
+    );
+  });
+
+  it('returns the smallest encoding when nothing fits', async () => {
+    const { encode } = fakeEncode(10000);
+    const search = await searchQualityForSize(encode, 1000, 0.9);
+    expect(search).toMatchObject({
+      quality: MIN_SEARCH_QUALITY,
+      fits: false,
+      attempts: 2,
+    });
+  });
+});
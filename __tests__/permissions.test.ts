@@ -0,0 +1,38 @@
+import {
+  getPermissionAction,
+  hasRequiredPermissions,
+} from '../src/camera/permissions';
+
+describe('getPermissionAction', () => {
+  it('asks before sending the user to Settings', () => {
+    expect(getPermissionAction('not-determined')).toBe('request');
+    expect(getPermissionAction('denied')).toBe('request');
+    expect(getPermissionAction('restricted')).toBe('blocked');
+    expect(getPermissionAction('granted')).toBe('none');
+  });
+
+  it('sends the user to Settings once a request stays denied', () => {
+    expect(getPermissionAction('denied', true)).toBe('open-settings');
+    expect(getPermissionAction('granted', true)).toBe('none');
+    expect(getPermissionAction('restricted', true)).toBe('blocked');
+  });
+});
+
+describe('hasRequiredPermissions', () => {
+  it('only requires the camera', () => {
+    expect(
+      hasRequiredPermissions({
+        camera: 'granted',
+        microphone: 'denied',
+        location: 'not-determined',
+      }),
+    ).toBe(true);
+    expect(
+      hasRequiredPermissions({
+        camera: 'denied',
+        microphone: 'granted',
+        location: 'granted',
+      }),
+    ).toBe(false);
+  });
+});
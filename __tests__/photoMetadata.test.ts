@@ -0,0 +1,148 @@
+import piexif from 'piexifjs';
+import {
+  MetadataStamp,
+  applyMetadataStamp,
+  describePhotoExif,
+  formatExposureTime,
+  getJpegOrientation,
+  parsePhotoMetadata,
+} from '../src/processing/photoMetadata';
+
+// SOI, an empty quantisation table segment, SOS and EOI: enough structure for
+// piexifjs to insert an APP1 segment.
+const TINY_JPEG =
+  '\xff\xd8\xff\xdb\x00\x04\x00\x00\xff\xda\x00\x02\x00\xff\xd9';
+
+const stamp: MetadataStamp = {
+  requestedResolution: '1920x1080',
+  cameraLabel: 'Wide (84°)',
+  zoom: '2x',
+  appVersion: '0.0.1',
+  operatorTag: 'Site survey',
+};
+
+describe('parsePhotoMetadata', () => {
+  it('reads iOS metadata', () => {
+    const exif = parsePhotoMetadata({
+      Orientation: 6,
+      '{TIFF}': { Make: 'Apple', Model: 'iPhone 15 Pro' },
+      '{Exif}': {
+        ExposureTime: 1 / 120,
+        FNumber: 1.78,
+        ISOSpeedRatings: [64],
+        FocalLength: 6.86,
+        FocalLenIn35mmFilm: 24,
+        LensModel: 'iPhone 15 Pro back camera 6.86mm f/1.78',
+        DateTimeOriginal: '2024:05:01 10:20:30',
+        OffsetTimeOriginal: '+02:00',
+        Flash: 16,
+      },
+    });
+
+    expect(describePhotoExif(exif)).toEqual([
+      { label: 'Exposure', value: '1/120 s' },
+      { label: 'Aperture', value: 'f/1.78' },
+      { label: 'ISO', value: '64' },
+      { label: 'Focal length', value: '6.86 mm (24 mm equiv.)' },
+      { label: 'Lens', value: 'iPhone 15 Pro back camera 6.86mm f/1.78' },
+      { label: 'Camera', value: 'Apple iPhone 15 Pro' },
+      { label: 'Orientation', value: 'Rotated 90° CW' },
+      { label: 'Taken', value: '2024:05:01 10:20:30 +02:00' },
+      { label: 'Flash', value: 'Off' },
+    ]);
+  });
+
+  it('reads string values as reported on Android', () => {
+    const exif = parsePhotoMetadata({
+      Orientation: '1',
+      '{Exif}': {
+        ExposureTime: '1/50',
+        FNumber: '1.8',
+        ISOSpeedRatings: '400',
+      },
+    });
+
+    expect(exif.exposureTime).toBeCloseTo(0.02);
+    expect(exif.fNumber).toBe(1.8);
+    expect(exif.iso).toBe(400);
+    expect(exif.orientation).toBe(1);
+  });
+
+  it('tolerates missing metadata', () => {
+    expect(describePhotoExif(parsePhotoMetadata(undefined))).toEqual([]);
+  });
+
+  it('formats long exposures in seconds', () => {
+    expect(formatExposureTime(2.5)).toBe('2.5 s');
+    expect(formatExposureTime(0.0005)).toBe('1/2000 s');
+  });
+});
+
+describe('applyMetadataStamp', () => {
+  it('writes the stamp as ASCII-safe JSON', () => {
+    const written = piexif.load(applyMetadataStamp(TINY_JPEG, stamp))['0th']!;
+
+    const description = written[piexif.ImageIFD.ImageDescription];
+    expect(description).not.toMatch(/[^\x20-\x7e]/);
+    expect(JSON.parse(description)).toEqual(stamp);
+    expect(written[piexif.ImageIFD.Software]).toBe('VisionCameraApp 0.0.1');
+    expect(written[piexif.ImageIFD.Artist]).toBe('Site survey');
+  });
+
+  it('carries camera EXIF over to a cropped copy', () => {
+    const original = piexif.insert(
+      piexif.dump({
+        '0th': {
+          [piexif.ImageIFD.Make]: 'Google',
+          [piexif.ImageIFD.Orientation]: 6,
+        },
+        Exif: { [piexif.ExifIFD.ISOSpeedRatings]: 100 },
+      }),
+      TINY_JPEG,
+    );
+
+    const written = piexif.load(
+      applyMetadataStamp(TINY_JPEG, stamp, {
+        originalJpeg: original,
+        outputSize: { width: 1080, height: 1080 },
+      }),
+    );
+
+    expect(written['0th']![piexif.ImageIFD.Make]).toBe('Google');
+    expect(written['0th']![piexif.ImageIFD.Orientation]).toBe(1);
+    expect(written.Exif![piexif.ExifIFD.ISOSpeedRatings]).toBe(100);
+    expect(written.Exif![piexif.ExifIFD.PixelXDimension]).toBe(1080);
+  });
+
+  it('keeps the rotation a crop still needs', () => {
+    const written = piexif.load(
+      applyMetadataStamp(TINY_JPEG, stamp, {
+        originalJpeg: TINY_JPEG,
+        outputSize: { width: 1080, height: 1920 },
+        exifOrientation: 6,
+      }),
+    );
+
+    expect(written['0th']![piexif.ImageIFD.Orientation]).toBe(6);
+    expect(written.Exif![piexif.ExifIFD.PixelXDimension]).toBe(1920);
+    expect(written.Exif![piexif.ExifIFD.PixelYDimension]).toBe(1080);
+  });
+});
+
+describe('getJpegOrientation', () => {
+  it('reads the orientation the camera wrote into the file', () => {
+    const rotated = piexif.insert(
+      piexif.dump({ '0th': { [piexif.ImageIFD.Orientation]: 6 } }),
+      TINY_JPEG,
+    );
+    expect(getJpegOrientation(rotated)).toBe(6);
+    // Only the header before the image data is needed.
+    expect(
+      getJpegOrientation(rotated.slice(0, rotated.indexOf('\xff\xda'))),
+    ).toBe(6);
+  });
+
+  it('is undefined without EXIF', () => {
+    expect(getJpegOrientation(TINY_JPEG)).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { galaxyS23Devices, pixel8Devices } from '../__fixtures__/cameraDevices';
+import {
+  buildResolutionCatalog,
+  ratioKeyForSize,
+} from '../src/camera/resolutionCatalog';
+import { parseAspectRatioKey } from '../src/utils/resolution';
+
+const [pixelBack] = pixel8Devices;
+const [s23Back] = galaxyS23Devices;
+
+describe('buildResolutionCatalog', () => {
+  it('snaps near-ratio sensor sizes to the ratio people call them', () => {
+    expect(ratioKeyForSize({ width: 4080, height: 3072 })).toBe(
+      '4x3 Landscape (4:3)',
+    );
+    expect(ratioKeyForSize({ width: 2296, height: 4080 })).toBe(
+      '9x16 Portrait (9:16)',
+    );
+    expect(ratioKeyForSize({ width: 2400, height: 1080 })).toBe(
+      '20x9 Landscape (20:9)',
+    );
+  });
+
+  it('groups native sizes by ratio, largest first, in both orientations', () => {
+    const catalog = buildResolutionCatalog(pixelBack.formats, false);
+    const landscape = catalog.find(g => g.key === '4x3 Landscape (4:3)');
+    const portrait = catalog.find(g => g.key === '3x4 Portrait (3:4)');
+
+    expect(catalog[0].key).toBe('Square (1:1)');
+    expect(landscape?.options.map(o => o.resolution)).toEqual([
+      '4080x3072',
+      '640x480',
+    ]);
+    expect(portrait?.options[0].resolution).toBe('3072x4080');
+    expect(catalog.every(g => g.options.every(o => o.native))).toBe(true);
+  });
+
+  it('keeps every ratio key parseable for the crop pipeline', () => {
+    buildResolutionCatalog(s23Back.formats, true).forEach(group => {
+      expect(parseAspectRatioKey(group.key)).toBeCloseTo(group.aspectRatio);
+    });
+  });
+
+  it('adds standard sizes after native ones and flags the work they need', () => {
+    const catalog = buildResolutionCatalog(s23Back.formats, true);
+    const sixteenNine = catalog.find(g => g.key === '16x9 Landscape (16:9)');
+    const square = catalog.find(g => g.key === 'Square (1:1)');
+
+    expect(sixteenNine?.options[0]).toMatchObject({
+      resolution: '4000x2252',
+      native: true,
+    });
+    expect(
+      sixteenNine?.options.find(o => o.resolution === '2560x1440'),
+    ).toMatchObject({
+      native: false,
+      requiresCrop: false,
+      requiresDownscale: true,
+    });
+    expect(square?.options.map(o => o.resolution)).not.toContain('3024x3024');
+  });
+
+  it('marks standard sizes that only a different ratio covers as cropped', () => {
+    const frontFormats = galaxyS23Devices[1].formats;
+    const square = buildResolutionCatalog(frontFormats, true).find(
+      g => g.key === 'Square (1:1)',
+    );
+
+    expect(square?.options.every(o => !o.native && o.requiresCrop)).toBe(true);
+  });
+});
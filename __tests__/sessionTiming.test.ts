@@ -0,0 +1,97 @@
+import {
+  INITIAL_SESSION_TIMING,
+  MAX_RESTART_SAMPLES,
+  RESTART_TIMEOUT_MS,
+  SessionConfig,
+  cancelRestart,
+  completeRestart,
+  describeSessionChange,
+  expireRestart,
+  startRestart,
+  summarizeRestarts,
+} from '../src/camera/sessionTiming';
+
+const config: SessionConfig = {
+  deviceId: 'back-0',
+  format: 'photo 4000x3000',
+  isActive: true,
+};
+
+describe('describeSessionChange', () => {
+  it('lists what changed', () => {
+    expect(
+      describeSessionChange(config, {
+        ...config,
+        deviceId: 'front-1',
+        format: 'photo 3264x2448',
+      }),
+    ).toBe('device + format');
+  });
+
+  it('ignores starts, pauses, resumes and unchanged configurations', () => {
+    expect(describeSessionChange(null, config)).toBeNull();
+    expect(
+      describeSessionChange({ ...config, isActive: false }, config),
+    ).toBeNull();
+    expect(describeSessionChange(config, { ...config })).toBeNull();
+    expect(
+      describeSessionChange(config, { ...config, isActive: false }),
+    ).toBeNull();
+  });
+});
+
+describe('restart timing', () => {
+  it('measures from the change to the first preview frame', () => {
+    const pending = startRestart(INITIAL_SESSION_TIMING, 'format', 1000);
+    const done = completeRestart(pending, 1350);
+    expect(done.pending).toBeNull();
+    expect(done.samples).toEqual([
+      { reason: 'format', durationMs: 350, completedAt: 1350 },
+    ]);
+  });
+
+  it('ignores preview starts without a pending restart', () => {
+    expect(completeRestart(INITIAL_SESSION_TIMING, 500)).toBe(
+      INITIAL_SESSION_TIMING,
+    );
+    const cancelled = cancelRestart(
+      startRestart(INITIAL_SESSION_TIMING, 'device', 0),
+    );
+    expect(completeRestart(cancelled, 500).samples).toHaveLength(0);
+  });
+
+  it('drops a restart that never showed a preview frame', () => {
+    const pending = startRestart(INITIAL_SESSION_TIMING, 'device', 1000);
+    expect(expireRestart(pending, 1000 + RESTART_TIMEOUT_MS - 1)).toBe(pending);
+    expect(
+      expireRestart(pending, 1000 + RESTART_TIMEOUT_MS).pending,
+    ).toBeNull();
+
+    const late = completeRestart(pending, 1000 + RESTART_TIMEOUT_MS);
+    expect(late.pending).toBeNull();
+    expect(late.samples).toHaveLength(0);
+  });
+
+  it('keeps a bounded number of samples and summarizes them', () => {
+    let timing = INITIAL_SESSION_TIMING;
+    for (let i = 1; i <= MAX_RESTART_SAMPLES + 2; i++) {
+      timing = completeRestart(startRestart(timing, 'format', 0), i * 100);
+    }
+    expect(timing.samples).toHaveLength(MAX_RESTART_SAMPLES);
+
+    const summary = summarizeRestarts(timing.samples);
+    expect(summary.count).toBe(MAX_RESTART_SAMPLES);
+    expect(summary.last?.durationMs).toBe((MAX_RESTART_SAMPLES + 2) * 100);
+    expect(summary.maxMs).toBe((MAX_RESTART_SAMPLES + 2) * 100);
+    expect(summary.averageMs).toBe(1250);
+  });
+
+  it('has an empty summary before any restart', () => {
+    expect(summarizeRestarts([])).toEqual({
+      count: 0,
+      last: null,
+      averageMs: null,
+      maxMs: null,
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  DEFAULT_SHOOTING_SETTINGS,
+  SequenceReport,
+  describeSequenceReport,
+  describeShootingSettings,
+  summarizeSequence,
+} from '../src/camera/shootingModes';
+
+const burstReport: SequenceReport = {
+  settings: { ...DEFAULT_SHOOTING_SETTINGS, mode: 'burst', burstCount: 5 },
+  requested: 5,
+  startedAt: 1000,
+  stopped: true,
+  shots: [
+    {
+      index: 0,
+      capturedAt: 1250,
+      rawResolution: '4032x3024',
+      finalResolution: '1920x1440',
+      size: 1024 * 1024,
+    },
+    {
+      index: 1,
+      capturedAt: 1500,
+      rawResolution: '4032x3024',
+      finalResolution: '1920x1440',
+      size: 1024 * 1024,
+    },
+    { index: 2, capturedAt: 2000, error: 'Camera is not ready!' },
+  ],
+};
+
+describe('describeShootingSettings', () => {
+  it('labels each mode', () => {
+    expect(describeShootingSettings(DEFAULT_SHOOTING_SETTINGS)).toBe('Single');
+    expect(
+      describeShootingSettings({
+        ...DEFAULT_SHOOTING_SETTINGS,
+        mode: 'interval',
+        intervalSeconds: 2,
+        intervalCount: 30,
+      }),
+    ).toBe('Every 2s ×30');
+  });
+});
+
+describe('summarizeSequence', () => {
+  it('measures the achieved rate from the start to the last capture', () => {
+    const summary = summarizeSequence(burstReport);
+
+    expect(summary.taken).toBe(3);
+    expect(summary.succeeded).toBe(2);
+    expect(summary.failed).toBe(1);
+    expect(summary.seconds).toBe(1);
+    expect(summary.shotsPerSecond).toBe(3);
+    expect(summary.totalSize).toBe(2 * 1024 * 1024);
+  });
+});
+
+describe('describeSequenceReport', () => {
+  it('reports per-shot and aggregate results for a stopped burst', () => {
+    const text = describeSequenceReport(burstReport);
+
+    expect(text).toContain('3/5 shots in 1.0s');
+    expect(text).toContain('Achieved 3.0 shots/second');
+    expect(text).toContain('Failed: 1');
+    expect(text).toContain('Stopped before completion.');
+    expect(text).toContain('#1 4032x3024 → 1920x1440');
+    expect(text).toContain('#3 failed: Camera is not ready!');
+  });
+
+  it('does not treat stopping an endless interval as incomplete', () => {
+    const text = describeSequenceReport({
+      ...burstReport,
+      settings: { ...DEFAULT_SHOOTING_SETTINGS, mode: 'interval' },
+      requested: null,
+    });
+
+    expect(text).toContain('3 shots in 1.0s');
+    expect(text).not.toContain('shots/second');
+    expect(text).not.toContain('Stopped before completion.');
+  });
+});
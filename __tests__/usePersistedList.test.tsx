@@ -0,0 +1,54 @@
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { usePersistedList } from '../src/hooks/usePersistedList';
+import { PersistedList } from '../src/storage/persistedList';
+
+type Hook = ReturnType<typeof usePersistedList<string>>;
+
+const renderList = (list: PersistedList<string>) => {
+  const result: { current: Hook | null } = { current: null };
+  const Probe = () => {
+    result.current = usePersistedList(list);
+    return null;
+  };
+  ReactTestRenderer.act(() => {
+    ReactTestRenderer.create(<Probe />);
+  });
+  return result;
+};
+
+describe('usePersistedList', () => {
+  it('keeps the stored items when updated before they have loaded', async () => {
+    let finishLoad: (items: string[]) => void = () => {};
+    const list: PersistedList<string> = {
+      name: 'test list',
+      load: () =>
+        new Promise(resolve => {
+          finishLoad = resolve;
+        }),
+      save: jest.fn(() => Promise.resolve()),
+    };
+    const result = renderList(list);
+
+    ReactTestRenderer.act(() => result.current?.update(['new']));
+    expect(list.save).not.toHaveBeenCalled();
+
+    await ReactTestRenderer.act(async () => finishLoad(['old']));
+    expect(result.current?.items).toEqual(['new', 'old']);
+    expect(list.save).toHaveBeenCalledWith(['new', 'old']);
+  });
+
+  it('saves updates once loaded', async () => {
+    const list: PersistedList<string> = {
+      name: 'test list',
+      load: () => Promise.resolve(['old']),
+      save: jest.fn(() => Promise.resolve()),
+    };
+    const result = renderList(list);
+    await ReactTestRenderer.act(async () => {});
+    expect(list.save).not.toHaveBeenCalled();
+
+    ReactTestRenderer.act(() => result.current?.update(['new', 'old']));
+    expect(list.save).toHaveBeenCalledWith(['new', 'old']);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  galaxyS23Devices,
+  iPhone15ProDevices,
+  pixel8Devices,
+} from '../__fixtures__/cameraDevices';
+import {
+  formatDisplayZoom,
+  getZoomPresets,
+  zoomFromPinch,
+} from '../src/camera/zoom';
+
+const labels = (presets: { label: string }[]) =>
+  presets.map(preset => preset.label);
+
+describe('getZoomPresets', () => {
+  it('adds the telephoto factor derived from the lenses', () => {
+    const [triple] = iPhone15ProDevices;
+    expect(getZoomPresets(triple, iPhone15ProDevices)).toEqual([
+      { label: '0.5x', zoom: 1 },
+      { label: '1x', zoom: 2 },
+      { label: '2x', zoom: 4 },
+      { label: '3x', zoom: 6 },
+    ]);
+  });
+
+  it('skips the telephoto preset when no telephoto lens is known', () => {
+    const [triple] = iPhone15ProDevices;
+    expect(labels(getZoomPresets(triple, [triple]))).toEqual([
+      '0.5x',
+      '1x',
+      '2x',
+    ]);
+  });
+
+  it('offers ultra-wide only on devices that include one', () => {
+    const [dualWide] = pixel8Devices;
+    const [wide] = galaxyS23Devices;
+    expect(labels(getZoomPresets(dualWide, pixel8Devices))).toEqual([
+      '0.7x',
+      '1x',
+      '2x',
+    ]);
+    expect(labels(getZoomPresets(wide, galaxyS23Devices))).toEqual([
+      '1x',
+      '2x',
+    ]);
+  });
+});
+
+describe('formatDisplayZoom', () => {
+  it('shows zoom relative to the wide lens', () => {
+    expect(formatDisplayZoom(2, 2)).toBe('1x');
+    expect(formatDisplayZoom(5, 2)).toBe('2.5x');
+    expect(formatDisplayZoom(0.67, 1)).toBe('0.7x');
+  });
+});
+
+describe('zoomFromPinch', () => {
+  it('scales with the pinch distance within the device limits', () => {
+    expect(zoomFromPinch(2, 100, 150, 1, 10)).toBe(3);
+    expect(zoomFromPinch(2, 100, 10, 1, 10)).toBe(1);
+    expect(zoomFromPinch(2, 0, 150, 1, 10)).toBe(2);
+  });
+});
@@ -0,0 +1,72 @@
+package com.visioncameraapp
+
+import android.content.Context
+import android.hardware.Sensor
+import android.hardware.SensorEvent
+import android.hardware.SensorEventListener
+import android.hardware.SensorManager
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.modules.core.DeviceEventManagerModule
+
+/**
+ * Streams the gravity vector in m/s² to JavaScript as [EVENT_NAME] events between [start] and
+ * [stop]. Android reports it as the reaction against gravity, so +y points up when upright.
+ */
+class GravitySensorModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext), SensorEventListener {
+
+  private val sensorManager =
+      reactContext.getSystemService(Context.SENSOR_SERVICE) as SensorManager
+
+  override fun getName(): String = NAME
+
+  @ReactMethod
+  fun start(intervalMs: Double, promise: Promise) {
+    val sensor = sensorManager.getDefaultSensor(Sensor.TYPE_GRAVITY)
+    if (sensor == null) {
+      promise.reject("unavailable", "This device has no gravity sensor.")
+      return
+    }
+    sensorManager.unregisterListener(this)
+    sensorManager.registerListener(this, sensor, (intervalMs * 1000).toInt())
+    promise.resolve(null)
+  }
+
+  @ReactMethod
+  fun stop() {
+    sensorManager.unregisterListener(this)
+  }
+
+  // Required by NativeEventEmitter; listeners are tracked on the JavaScript side.
+  @ReactMethod fun addListener(eventName: String) {}
+
+  @ReactMethod fun removeListeners(count: Double) {}
+
+  override fun onSensorChanged(event: SensorEvent) {
+    val gravity =
+        Arguments.createMap().apply {
+          putDouble("x", event.values[0].toDouble())
+          putDouble("y", event.values[1].toDouble())
+          putDouble("z", event.values[2].toDouble())
+        }
+    reactApplicationContext
+        .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+        .emit(EVENT_NAME, gravity)
+  }
+
+  override fun onAccuracyChanged(sensor: Sensor, accuracy: Int) {}
+
+  override fun invalidate() {
+    stop()
+    super.invalidate()
+  }
+
+  companion object {
+    const val NAME = "GravitySensor"
+    const val EVENT_NAME = "gravity"
+  }
+}
@@ -0,0 +1,8 @@
+#import <React/RCTEventEmitter.h>
+
+// Streams the gravity vector in g to JavaScript as "gravity" events between
+// start and stop. Core Motion reports it as the pull towards the ground, so -y
+// points down when the device is upright.
+@interface GravitySensor : RCTEventEmitter
+
+@end
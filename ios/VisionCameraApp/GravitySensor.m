@@ -0,0 +1,62 @@
+#import "GravitySensor.h"
+
+#import <CoreMotion/CoreMotion.h>
+
+@implementation GravitySensor {
+  CMMotionManager *_motionManager;
+}
+
+RCT_EXPORT_MODULE()
+
++ (BOOL)requiresMainQueueSetup
+{
+  return NO;
+}
+
+- (instancetype)init
+{
+  if (self = [super init]) {
+    _motionManager = [CMMotionManager new];
+  }
+  return self;
+}
+
+- (NSArray<NSString *> *)supportedEvents
+{
+  return @[ @"gravity" ];
+}
+
+RCT_EXPORT_METHOD(start : (double)intervalMs resolve : (RCTPromiseResolveBlock)resolve reject : (RCTPromiseRejectBlock)reject)
+{
+  if (!_motionManager.isDeviceMotionAvailable) {
+    reject(@"unavailable", @"This device has no gravity sensor.", nil);
+    return;
+  }
+  _motionManager.deviceMotionUpdateInterval = intervalMs / 1000;
+  __weak GravitySensor *weakSelf = self;
+  [_motionManager startDeviceMotionUpdatesToQueue:[NSOperationQueue mainQueue]
+                                      withHandler:^(CMDeviceMotion *motion, NSError *error) {
+                                        if (motion) {
+                                          [weakSelf sendEventWithName:@"gravity"
+                                                                 body:@{
+                                                                   @"x" : @(motion.gravity.x),
+                                                                   @"y" : @(motion.gravity.y),
+                                                                   @"z" : @(motion.gravity.z),
+                                                                 }];
+                                        }
+                                      }];
+  resolve(nil);
+}
+
+RCT_EXPORT_METHOD(stop)
+{
+  [_motionManager stopDeviceMotionUpdates];
+}
+
+- (void)invalidate
+{
+  [_motionManager stopDeviceMotionUpdates];
+  [super invalidate];
+}
+
+@end
@@ -0,0 +1,173 @@
+export type ErrorAction = 'retry' | 'open-settings' | 'choose-device' | 'none';
+
+export type ErrorGuidance = {
+  title: string;
+  message: string;
+  action: ErrorAction;
+};
+
+// Errors that usually clear up by restarting the session, such as another app
+// briefly holding the camera.
+const RECOVERABLE_ERRORS = new Set([
+  'session/camera-not-ready',
+  'session/hardware-cost-too-high',
+  'session/audio-session-failed-to-activate',
+  'session/audio-in-use-by-other-app',
+  'device/camera-already-in-use',
+  'system/max-cameras-in-use',
+  'capture/timed-out',
+]);
+
+// Errors the session keeps running through; the user only needs to know.
+const ADVISORY_ERRORS = new Set(['device/microphone-unavailable']);
+
+export const MAX_AUTO_RETRIES = 3;
+// A session that ran this long before failing counts as recovered, and gets a
+// fresh set of retries. Anything shorter is treated as the same failure.
+export const STABLE_SESSION_MS = 10000;
+const RETRY_BASE_DELAY_MS = 500;
+
+const GUIDANCE: { [code: string]: ErrorGuidance } = {
+  'permission/camera-permission-denied': {
+    title: 'Camera access denied',
+    message: 'Allow camera access in Settings to use the camera.',
+    action: 'open-settings',
+  },
+  'permission/microphone-permission-denied': {
+    title: 'Microphone access denied',
+    message: 'Allow microphone access in Settings to record videos with sound.',
+    action: 'open-settings',
+  },
+  'device/camera-already-in-use': {
+    title: 'Camera in use',
+    message:
+      'Another app is using the camera. Close it and the camera will restart.',
+    action: 'retry',
+  },
+  'device/no-device': {
+    title: 'No camera',
+    message: 'This device has no camera that the app can use.',
+    action: 'none',
+  },
+  'device/invalid-device': {
+    title: 'Camera unavailable',
+    message: 'The selected camera is no longer available. Choose another one.',
+    action: 'choose-device',
+  },
+  'device/camera-not-available-on-simulator': {
+    title: 'No camera on simulator',
+    message: 'The iOS simulator has no camera. Run the app on a device.',
+    action: 'none',
+  },
+  'device/microphone-unavailable': {
+    title: 'Microphone unavailable',
+    message: 'Videos will be recorded without sound.',
+    action: 'none',
+  },
+  'session/audio-in-use-by-other-app': {
+    title: 'Microphone in use',
+    message: 'Another app is recording audio. End the call or recording first.',
+    action: 'retry',
+  },
+  'session/hardware-cost-too-high': {
+    title: 'Configuration too demanding',
+    message:
+      'The camera cannot run this format with the current options. Retrying switches to its default format; a lower resolution or frame rate may also help.',
+    action: 'retry',
+  },
+  'system/max-cameras-in-use': {
+    title: 'Too many cameras open',
+    message: 'Close other apps using the camera and try again.',
+    action: 'retry',
+  },
+  'system/camera-is-restricted': {
+    title: 'Camera restricted',
+    message: 'The camera is blocked by parental controls or device policy.',
+    action: 'none',
+  },
+  'capture/insufficient-storage': {
+    title: 'Storage full',
+    message: 'Free up space on the device and try again.',
+    action: 'none',
+  },
+  'capture/recording-canceled': {
+    title: 'Recording canceled',
+    message: 'The recording was stopped before anything was saved.',
+    action: 'none',
+  },
+};
+
+const CATEGORY_GUIDANCE: { [category: string]: ErrorGuidance } = {
+  permission: {
+    title: 'Permission missing',
+    message: 'Check the app permissions in Settings.',
+    action: 'open-settings',
+  },
+  parameter: {
+    title: 'Invalid camera setting',
+    message: 'A camera option is not supported. Try different settings.',
+    action: 'retry',
+  },
+  device: {
+    title: 'Camera problem',
+    message:
+      'The camera reported a problem. Try again or choose another camera.',
+    action: 'choose-device',
+  },
+  format: {
+    title: 'Unsupported format',
+    message:
+      'This camera cannot use the selected format with the current options. Retrying switches to its default format, or choose another resolution, frame rate or HDR setting.',
+    action: 'retry',
+  },
+  session: {
+    title: 'Camera session failed',
+    message: 'The camera stopped unexpectedly.',
+    action: 'retry',
+  },
+  capture: {
+    title: 'Capture failed',
+    message: 'The photo or video could not be captured. Try again.',
+    action: 'none',
+  },
+  system: {
+    title: 'System error',
+    message: 'The camera system is unavailable right now.',
+    action: 'retry',
+  },
+};
+
+const FALLBACK_GUIDANCE: ErrorGuidance = {
+  title: 'Unexpected error',
+  message: 'Something went wrong with the camera.',
+  action: 'retry',
+};
+
+/** The vision-camera error code ("category/reason"), or 'unknown/unknown'. */
+export const getErrorCode = (error: unknown): string => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && code.includes('/')
+    ? code
+    : 'unknown/unknown';
+};
+
+export const getErrorCategory = (code: string) => code.split('/')[0];
+
+export const getErrorGuidance = (code: string): ErrorGuidance =>
+  GUIDANCE[code] ??
+  CATEGORY_GUIDANCE[getErrorCategory(code)] ??
+  FALLBACK_GUIDANCE;
+
+export const isRecoverableError = (code: string) =>
+  RECOVERABLE_ERRORS.has(code);
+
+export const isAdvisoryError = (code: string) => ADVISORY_ERRORS.has(code);
+
+// Errors caused by the selected format itself, which would recur on a retry.
+export const isFormatError = (code: string) =>
+  getErrorCategory(code) === 'format' ||
+  code === 'session/hardware-cost-too-high';
+
+/** Backoff before automatic retry number `attempt` (0-based), or null once we give up. */
+export const getRetryDelay = (attempt: number): number | null =>
+  attempt < MAX_AUTO_RETRIES ? RETRY_BASE_DELAY_MS * 2 ** attempt : null;
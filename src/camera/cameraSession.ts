@@ -0,0 +1,201 @@
+import type { CameraDevice } from 'react-native-vision-camera';
+import { Resolution, formatResolution } from '../utils/resolution';
+import { isFormatError } from './cameraErrors';
+import { CameraFormat } from './types';
+
+export type SessionStatus =
+  | 'idle'
+  | 'permission'
+  | 'discovering'
+  | 'ready'
+  | 'capturing'
+  | 'processing'
+  | 'error';
+
+export type CameraSessionState = {
+  status: SessionStatus;
+  device: CameraDevice | null;
+  format: CameraFormat | null;
+  // The photo size the user asked for; photos are post-processed to it.
+  photoResolution: string | null;
+  aspectRatioKey: string | null;
+  maxPhotoResolution: Resolution | null;
+  error: string | null;
+  // vision-camera error code of the failure, when it came from the camera.
+  errorCode: string | null;
+};
+
+export type CameraSessionAction =
+  | { type: 'permissionChanged'; granted: boolean }
+  | { type: 'deviceSelected'; device: CameraDevice }
+  | { type: 'deviceLost' }
+  | {
+      type: 'formatSelected';
+      format: CameraFormat;
+      photoResolution?: string;
+      aspectRatioKey?: string | null;
+    }
+  | { type: 'captureStarted' }
+  | { type: 'processingStarted' }
+  | { type: 'captureFinished' }
+  | { type: 'failed'; error: string; code?: string }
+  | { type: 'retry' };
+
+export const INITIAL_CAMERA_SESSION: CameraSessionState = {
+  status: 'idle',
+  device: null,
+  format: null,
+  photoResolution: null,
+  aspectRatioKey: null,
+  maxPhotoResolution: null,
+  error: null,
+  errorCode: null,
+};
+
+const photoArea = (format: CameraFormat) =>
+  format.photoWidth * format.photoHeight;
+const videoArea = (format: CameraFormat) =>
+  format.videoWidth * format.videoHeight;
+
+/** The largest photo format, preferring larger video and higher fps on ties. */
+export const getDefaultPhotoFormat = (
+  device: CameraDevice,
+): CameraFormat | undefined =>
+  device.formats
+    .filter(format => format.photoWidth && format.photoHeight)
+    .sort(
+      (a, b) =>
+        photoArea(b) - photoArea(a) ||
+        videoArea(b) - videoArea(a) ||
+        b.maxFps - a.maxFps,
+    )[0];
+
+const isBusy = (state: CameraSessionState) =>
+  state.status === 'capturing' || state.status === 'processing';
+
+const withDevice = (
+  state: CameraSessionState,
+  device: CameraDevice,
+): CameraSessionState => {
+  const format = getDefaultPhotoFormat(device);
+  const session = {
+    ...state,
+    device,
+    aspectRatioKey: null,
+    error: null,
+    errorCode: null,
+  };
+  if (!format) {
+    return {
+      ...session,
+      status: 'error',
+      format: null,
+      photoResolution: null,
+      maxPhotoResolution: null,
+      error: `${device.name || device.id} does not offer any photo format.`,
+    };
+  }
+  const maxPhotoResolution = {
+    width: format.photoWidth,
+    height: format.photoHeight,
+  };
+  return {
+    ...session,
+    status: 'ready',
+    format,
+    photoResolution: formatResolution(maxPhotoResolution),
+    maxPhotoResolution,
+  };
+};
+
+/**
+ * Transitions of the camera session. Actions that do not apply to the
+ * current status (say, switching cameras mid-capture) leave the state as is.
+ */
+export const cameraSessionReducer = (
+  state: CameraSessionState,
+  action: CameraSessionAction,
+): CameraSessionState => {
+  switch (action.type) {
+    case 'permissionChanged':
+      if (!action.granted) {
+        return { ...INITIAL_CAMERA_SESSION, status: 'permission' };
+      }
+      return state.status === 'idle' || state.status === 'permission'
+        ? { ...state, status: 'discovering' }
+        : state;
+
+    case 'deviceSelected':
+      if (
+        state.status === 'idle' ||
+        state.status === 'permission' ||
+        isBusy(state)
+      ) {
+        return state;
+      }
+      return withDevice(state, action.device);
+
+    case 'deviceLost':
+      // Losing the camera ends any capture in progress.
+      return state.status === 'idle' || state.status === 'permission'
+        ? state
+        : { ...INITIAL_CAMERA_SESSION, status: 'discovering' };
+
+    case 'formatSelected':
+      if (state.status !== 'ready' || !state.device) {
+        return state;
+      }
+      return {
+        ...state,
+        format: action.format,
+        photoResolution:
+          action.photoResolution !== undefined
+            ? action.photoResolution
+            : state.photoResolution,
+        aspectRatioKey:
+          action.aspectRatioKey !== undefined
+            ? action.aspectRatioKey
+            : state.aspectRatioKey,
+      };
+
+    case 'captureStarted':
+      return state.status === 'ready'
+        ? { ...state, status: 'capturing' }
+        : state;
+
+    case 'processingStarted':
+      return state.status === 'capturing'
+        ? { ...state, status: 'processing' }
+        : state;
+
+    case 'captureFinished':
+      return isBusy(state) ? { ...state, status: 'ready' } : state;
+
+    case 'failed':
+      return state.status === 'idle' || state.status === 'permission'
+        ? state
+        : {
+            ...state,
+            status: 'error',
+            error: action.error,
+            errorCode: action.code ?? null,
+          };
+
+    case 'retry':
+      if (state.status !== 'error') {
+        return state;
+      }
+      // Retry with the format and photo size the user had chosen, unless that
+      // format is what failed; then the camera starts over from its default.
+      if (
+        state.device &&
+        state.format &&
+        !(state.errorCode && isFormatError(state.errorCode))
+      ) {
+        return { ...state, status: 'ready', error: null, errorCode: null };
+      }
+      return state.device
+        ? withDevice(state, state.device)
+        : { ...state, status: 'discovering', error: null, errorCode: null };
+  }
+};
@@ -0,0 +1,197 @@
+import type {
+  CameraDevice,
+  CameraDeviceFormat,
+} from 'react-native-vision-camera';
+
+// Bump whenever a field is added, removed or changes meaning, so reports from
+// different phones (and app versions) can be diffed knowingly.
+export const CAPABILITY_REPORT_SCHEMA_VERSION = 2;
+
+export type ReportEnvironment = {
+  platform: string;
+  osVersion: string;
+  // Null where the platform does not report it (the hardware model on iOS).
+  model: string | null;
+  osBuild: string | null;
+  generatedAt: string;
+};
+
+export type FormatCapabilities = {
+  photoWidth: number;
+  photoHeight: number;
+  videoWidth: number;
+  videoHeight: number;
+  minFps: number;
+  maxFps: number;
+  fieldOfView: number;
+  minISO: number;
+  maxISO: number;
+  supportsPhotoHdr: boolean;
+  supportsVideoHdr: boolean;
+  supportsDepthCapture: boolean;
+  autoFocusSystem: string;
+  videoStabilizationModes: string[];
+};
+
+export type DeviceCapabilities = {
+  id: string;
+  name: string;
+  position: string;
+  physicalDevices: string[];
+  isMultiCam: boolean;
+  hardwareLevel: string;
+  sensorOrientation: string;
+  minZoom: number;
+  maxZoom: number;
+  neutralZoom: number;
+  minExposure: number;
+  maxExposure: number;
+  minFocusDistance: number;
+  hasFlash: boolean;
+  hasTorch: boolean;
+  supportsFocus: boolean;
+  supportsLowLightBoost: boolean;
+  supportsRawCapture: boolean;
+  formats: FormatCapabilities[];
+};
+
+export type CapabilityReport = {
+  schemaVersion: number;
+  environment: ReportEnvironment;
+  devices: DeviceCapabilities[];
+};
+
+const toFormatCapabilities = (
+  format: CameraDeviceFormat,
+): FormatCapabilities => ({
+  photoWidth: format.photoWidth,
+  photoHeight: format.photoHeight,
+  videoWidth: format.videoWidth,
+  videoHeight: format.videoHeight,
+  minFps: format.minFps,
+  maxFps: format.maxFps,
+  fieldOfView: format.fieldOfView,
+  minISO: format.minISO,
+  maxISO: format.maxISO,
+  supportsPhotoHdr: format.supportsPhotoHdr,
+  supportsVideoHdr: format.supportsVideoHdr,
+  supportsDepthCapture: format.supportsDepthCapture,
+  autoFocusSystem: format.autoFocusSystem,
+  videoStabilizationModes: [...format.videoStabilizationModes],
+});
+
+const toDeviceCapabilities = (device: CameraDevice): DeviceCapabilities => ({
+  id: device.id,
+  name: device.name,
+  position: device.position,
+  physicalDevices: [...device.physicalDevices],
+  isMultiCam: device.isMultiCam,
+  hardwareLevel: device.hardwareLevel,
+  sensorOrientation: device.sensorOrientation,
+  minZoom: device.minZoom,
+  maxZoom: device.maxZoom,
+  neutralZoom: device.neutralZoom,
+  minExposure: device.minExposure,
+  maxExposure: device.maxExposure,
+  minFocusDistance: device.minFocusDistance,
+  hasFlash: device.hasFlash,
+  hasTorch: device.hasTorch,
+  supportsFocus: device.supportsFocus,
+  supportsLowLightBoost: device.supportsLowLightBoost,
+  supportsRawCapture: device.supportsRawCapture,
+  formats: device.formats.map(toFormatCapabilities),
+});
+
+// Fields are copied explicitly (rather than spreading the native objects) so the
+// schema only changes when this file does.
+export const buildCapabilityReport = (
+  devices: CameraDevice[],
+  environment: ReportEnvironment,
+): CapabilityReport => ({
+  schemaVersion: CAPABILITY_REPORT_SCHEMA_VERSION,
+  environment,
+  devices: devices.map(toDeviceCapabilities),
+});
+
+const DEVICE_COLUMNS: (keyof Omit<DeviceCapabilities, 'formats'>)[] = [
+  'id',
+  'name',
+  'position',
+  'physicalDevices',
+  'isMultiCam',
+  'hardwareLevel',
+  'sensorOrientation',
+  'minZoom',
+  'maxZoom',
+  'neutralZoom',
+  'minExposure',
+  'maxExposure',
+  'minFocusDistance',
+  'hasFlash',
+  'hasTorch',
+  'supportsFocus',
+  'supportsLowLightBoost',
+  'supportsRawCapture',
+];
+
+const FORMAT_COLUMNS: (keyof FormatCapabilities)[] = [
+  'photoWidth',
+  'photoHeight',
+  'videoWidth',
+  'videoHeight',
+  'minFps',
+  'maxFps',
+  'fieldOfView',
+  'minISO',
+  'maxISO',
+  'supportsPhotoHdr',
+  'supportsVideoHdr',
+  'supportsDepthCapture',
+  'autoFocusSystem',
+  'videoStabilizationModes',
+];
+
+const CSV_HEADER = [
+  'schemaVersion',
+  'platform',
+  'osVersion',
+  'model',
+  'osBuild',
+  ...DEVICE_COLUMNS.map(column => `device.${column}`),
+  'formatIndex',
+  ...FORMAT_COLUMNS.map(column => `format.${column}`),
+];
+
+const toCsvCell = (value: unknown) => {
+  const text = Array.isArray(value) ? value.join('|') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flattens the report to one row per (device, format) pair. List values are
+ * joined with "|"; a device without formats still gets a row with empty format
+ * columns so it is not silently dropped.
+ */
+export const capabilityReportToCsv = (report: CapabilityReport) => {
+  const rows = report.devices.flatMap(device => {
+    const deviceCells = [
+      report.schemaVersion,
+      report.environment.platform,
+      report.environment.osVersion,
+      report.environment.model ?? '',
+      report.environment.osBuild ?? '',
+      ...DEVICE_COLUMNS.map(column => device[column]),
+    ];
+    if (device.formats.length === 0) {
+      return [[...deviceCells, '', ...FORMAT_COLUMNS.map(() => '')]];
+    }
+    return device.formats.map((format, index) => [
+      ...deviceCells,
+      index,
+      ...FORMAT_COLUMNS.map(column => format[column]),
+    ]);
+  });
+  return [CSV_HEADER, ...rows]
+    .map(row => row.map(toCsvCell).join(','))
+    .join('\n');
+};
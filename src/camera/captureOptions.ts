@@ -0,0 +1,67 @@
+import type { CameraDevice } from 'react-native-vision-camera';
+import { CameraFormat } from './types';
+
+export type FlashMode = 'off' | 'on' | 'auto';
+export type QualityBalance = 'quality' | 'balanced' | 'speed';
+
+export type CaptureOptions = {
+  flash: FlashMode;
+  torch: boolean;
+  photoHdr: boolean;
+  lowLightBoost: boolean;
+  qualityBalance: QualityBalance;
+};
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+  flash: 'off',
+  torch: false,
+  photoHdr: false,
+  lowLightBoost: false,
+  qualityBalance: 'quality',
+};
+
+export const FLASH_MODES: FlashMode[] = ['off', 'on', 'auto'];
+export const QUALITY_BALANCES: QualityBalance[] = [
+  'quality',
+  'balanced',
+  'speed',
+];
+
+export type CaptureCapabilities = {
+  flash: boolean;
+  torch: boolean;
+  photoHdr: boolean;
+  lowLightBoost: boolean;
+};
+
+export const getCaptureCapabilities = (
+  device: CameraDevice,
+  format: CameraFormat | undefined,
+): CaptureCapabilities => ({
+  flash: device.hasFlash,
+  torch: device.hasTorch,
+  photoHdr: format?.supportsPhotoHdr ?? false,
+  lowLightBoost: device.supportsLowLightBoost,
+});
+
+// Options the user picked on a previous camera or format may not be supported by
+// the current one; those are switched off rather than passed to the session.
+export const getEffectiveCaptureOptions = (
+  options: CaptureOptions,
+  capabilities: CaptureCapabilities,
+): CaptureOptions => ({
+  flash: capabilities.flash ? options.flash : 'off',
+  torch: capabilities.torch && options.torch,
+  photoHdr: capabilities.photoHdr && options.photoHdr,
+  lowLightBoost: capabilities.lowLightBoost && options.lowLightBoost,
+  qualityBalance: options.qualityBalance,
+});
+
+export const describeCaptureOptions = (options: CaptureOptions) =>
+  [
+    `Flash: ${options.flash}`,
+    `Torch: ${options.torch ? 'on' : 'off'}`,
+    `HDR: ${options.photoHdr ? 'on' : 'off'}`,
+    `Low-light boost: ${options.lowLightBoost ? 'on' : 'off'}`,
+    `Prioritization: ${options.qualityBalance}`,
+  ].join('\n');
@@ -0,0 +1,87 @@
+import type {
+  Code,
+  CodeScannerFrame,
+  CodeType,
+} from 'react-native-vision-camera';
+
+export const SCANNABLE_CODE_TYPES: { type: CodeType; label: string }[] = [
+  { type: 'qr', label: 'QR' },
+  { type: 'ean-13', label: 'EAN-13' },
+  { type: 'ean-8', label: 'EAN-8' },
+  { type: 'upc-a', label: 'UPC-A' },
+  { type: 'upc-e', label: 'UPC-E' },
+  { type: 'code-128', label: 'Code 128' },
+  { type: 'code-39', label: 'Code 39' },
+  { type: 'code-93', label: 'Code 93' },
+  { type: 'itf', label: 'ITF' },
+  { type: 'codabar', label: 'Codabar' },
+  { type: 'data-matrix', label: 'Data Matrix' },
+  { type: 'pdf-417', label: 'PDF417' },
+  { type: 'aztec', label: 'Aztec' },
+];
+
+export const DEFAULT_CODE_TYPES: CodeType[] = ['qr', 'ean-13', 'code-128'];
+
+export const getCodeTypeLabel = (type: string) =>
+  SCANNABLE_CODE_TYPES.find(t => t.type === type)?.label ?? type;
+
+// A code held in view is reported on every frame; it only counts as a new read
+// once it has been out of view for this long.
+export const DEDUPE_WINDOW_MS = 3000;
+
+export const getCodeKey = (code: Code) => `${code.type}:${code.value ?? ''}`;
+
+export const createScanDeduplicator = (windowMs = DEDUPE_WINDOW_MS) => {
+  const lastSeen = new Map<string, number>();
+  return (code: Code, now: number) => {
+    const key = getCodeKey(code);
+    const previous = lastSeen.get(key);
+    lastSeen.set(key, now);
+    return previous == null || now - previous > windowMs;
+  };
+};
+
+export type Rect = { x: number; y: number; width: number; height: number };
+export type Size = { width: number; height: number };
+
+/**
+ * Maps a code's bounding box from scanner-frame coordinates to the preview
+ * view, which shows the frame with `resizeMode="cover"`. The scanner frame is
+ * always reported in sensor (landscape) dimensions. iOS reports boxes in that
+ * same landscape space, while Android's ML Kit reports them already rotated
+ * upright (`uprightCoordinates`).
+ */
+export const mapCodeFrameToView = (
+  rect: Rect,
+  scannerFrame: CodeScannerFrame,
+  view: Size,
+  uprightCoordinates: boolean,
+): Rect => {
+  const rotated =
+    scannerFrame.width > scannerFrame.height !== view.width > view.height;
+  let source: Size = scannerFrame;
+  let box = rect;
+  if (rotated) {
+    source = { width: scannerFrame.height, height: scannerFrame.width };
+    if (!uprightCoordinates) {
+      box = {
+        x: scannerFrame.height - (rect.y + rect.height),
+        y: rect.x,
+        width: rect.height,
+        height: rect.width,
+      };
+    }
+  }
+  const scale = Math.max(
+    view.width / source.width,
+    view.height / source.height,
+  );
+  const offsetX = (view.width - source.width * scale) / 2;
+  const offsetY = (view.height - source.height * scale) / 2;
+  return {
+    x: box.x * scale + offsetX,
+    y: box.y * scale + offsetY,
+    width: box.width * scale,
+    height: box.height * scale,
+  };
+};
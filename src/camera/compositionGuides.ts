@@ -0,0 +1,163 @@
+import { Resolution } from '../utils/resolution';
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export type GridStyle = 'off' | 'thirds' | 'golden';
+
+export type CompositionSettings = {
+  cropFrame: boolean;
+  grid: GridStyle;
+  level: boolean;
+  // Each entry draws a guide inset to that percentage of the frame.
+  safeAreas: number[];
+};
+
+// 93% and 90% are the broadcast action- and title-safe areas; 80% suits
+// platforms that overlay captions and buttons on top of the picture.
+export const SAFE_AREA_PERCENTAGES = [93, 90, 80];
+
+export const DEFAULT_COMPOSITION_SETTINGS: CompositionSettings = {
+  cropFrame: true,
+  grid: 'off',
+  level: false,
+  safeAreas: [],
+};
+
+// Within this many degrees of a quarter turn the level counts as straight.
+export const LEVEL_TOLERANCE_DEGREES = 1;
+
+const GOLDEN_SECTION = 1 / ((1 + Math.sqrt(5)) / 2);
+
+const centeredRect = (outer: Rect, width: number, height: number): Rect => ({
+  x: outer.x + (outer.width - width) / 2,
+  y: outer.y + (outer.height - height) / 2,
+  width,
+  height,
+});
+
+// The largest rect of the given ratio that fits inside `outer`.
+const fitRect = (outer: Rect, aspectRatio: number): Rect =>
+  outer.width / outer.height > aspectRatio
+    ? centeredRect(outer, outer.height * aspectRatio, outer.height)
+    : centeredRect(outer, outer.width, outer.width / aspectRatio);
+
+// The preview scales the video stream to cover the view, so it may spill past
+// the edges on one axis.
+export const getCoverRect = (view: Resolution, aspectRatio: number): Rect => {
+  const bounds = { x: 0, y: 0, ...view };
+  return view.width / view.height > aspectRatio
+    ? centeredRect(bounds, view.width, view.width / aspectRatio)
+    : centeredRect(bounds, view.height * aspectRatio, view.height);
+};
+
+const clipToView = (rect: Rect, view: Resolution): Rect => {
+  const x = Math.max(rect.x, 0);
+  const y = Math.max(rect.y, 0);
+  return {
+    x,
+    y,
+    width: Math.min(rect.x + rect.width, view.width) - x,
+    height: Math.min(rect.y + rect.height, view.height) - y,
+  };
+};
+
+// Sensor formats are landscape; the preview shows them in the view's orientation.
+export const getUprightAspectRatio = (format: Resolution, view: Resolution) => {
+  const long = Math.max(format.width, format.height);
+  const short = Math.min(format.width, format.height);
+  return view.width >= view.height ? long / short : short / long;
+};
+
+/**
+ * Where the photo's field of view lands in the preview, which shows the video
+ * stream rather than the photo. Both streams are centre crops of the sensor
+ * across its full long side, so the photo shares the video's long side.
+ */
+export const getPhotoRect = (
+  view: Resolution,
+  videoAspectRatio: number,
+  photoAspectRatio: number,
+): Rect => {
+  const video = getCoverRect(view, videoAspectRatio);
+  return video.height >= video.width
+    ? centeredRect(video, video.height * photoAspectRatio, video.height)
+    : centeredRect(video, video.width, video.width / photoAspectRatio);
+};
+
+/**
+ * Where the centre crop done by `processPhoto` lands in the preview, clipped
+ * to the visible part of the view.
+ */
+export const getCropFrameRect = (
+  view: Resolution,
+  videoAspectRatio: number,
+  photoAspectRatio: number,
+  targetAspectRatio: number,
+): Rect =>
+  clipToView(
+    fitRect(
+      getPhotoRect(view, videoAspectRatio, photoAspectRatio),
+      targetAspectRatio,
+    ),
+    view,
+  );
+
+// The four strips of the view outside `frame`, for darkening what gets cropped.
+export const getMaskRects = (view: Resolution, frame: Rect): Rect[] =>
+  [
+    { x: 0, y: 0, width: view.width, height: frame.y },
+    {
+      x: 0,
+      y: frame.y + frame.height,
+      width: view.width,
+      height: view.height - frame.y - frame.height,
+    },
+    { x: 0, y: frame.y, width: frame.x, height: frame.height },
+    {
+      x: frame.x + frame.width,
+      y: frame.y,
+      width: view.width - frame.x - frame.width,
+      height: frame.height,
+    },
+  ].filter(rect => rect.width > 0.5 && rect.height > 0.5);
+
+// Line positions as fractions of the frame, used for both axes.
+export const getGridFractions = (grid: GridStyle): number[] => {
+  switch (grid) {
+    case 'thirds':
+      return [1 / 3, 2 / 3];
+    case 'golden':
+      return [1 - GOLDEN_SECTION, GOLDEN_SECTION];
+    default:
+      return [];
+  }
+};
+
+export const getSafeAreaRect = (frame: Rect, percentage: number): Rect =>
+  centeredRect(
+    frame,
+    (frame.width * percentage) / 100,
+    (frame.height * percentage) / 100,
+  );
+
+/**
+ * Rotation of the device around the screen's normal, in degrees clockwise
+ * from upright, from a gravity vector in Android's axis convention (+y up).
+ * Returns null when the device lies too flat for the level to mean anything.
+ */
+export const getTiltDegrees = (gravity: {
+  x: number;
+  y: number;
+  z: number;
+}): number | null => {
+  const inPlane = Math.hypot(gravity.x, gravity.y);
+  const total = Math.hypot(inPlane, gravity.z);
+  if (total === 0 || inPlane / total < 0.5) {
+    return null;
+  }
+  return (Math.atan2(-gravity.x, gravity.y) * 180) / Math.PI;
+};
+
+// Distance from the nearest quarter turn, so the level also works in landscape.
+export const getLevelDeviation = (tilt: number) =>
+  tilt - Math.round(tilt / 90) * 90;
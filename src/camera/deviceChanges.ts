@@ -0,0 +1,30 @@
+import type { CameraDevice } from 'react-native-vision-camera';
+
+export type DeviceChanges = {
+  added: CameraDevice[];
+  removed: CameraDevice[];
+};
+
+export const diffDevices = (
+  previous: CameraDevice[],
+  next: CameraDevice[],
+): DeviceChanges => {
+  const previousIds = new Set(previous.map(d => d.id));
+  const nextIds = new Set(next.map(d => d.id));
+  return {
+    added: next.filter(d => !previousIds.has(d.id)),
+    removed: previous.filter(d => !nextIds.has(d.id)),
+  };
+};
+
+export const describeDeviceChanges = (
+  { added, removed }: DeviceChanges,
+  labelFor: (device: CameraDevice) => string,
+) =>
+  [
+    ...added.map(d => `Camera connected: ${labelFor(d)}`),
+    ...removed.map(d => `Camera disconnected: ${labelFor(d)}`),
+  ].join('\n');
+
+export const isExternalDevice = (device: CameraDevice) =>
+  device.position === 'external';
@@ -0,0 +1,155 @@
+import type {
+  CameraDevice,
+  PhysicalCameraDeviceType,
+} from 'react-native-vision-camera';
+
+const POSITION_LABELS: { [position: string]: string } = {
+  back: 'Back',
+  front: 'Front',
+  external: 'External',
+};
+
+// Android reports ids as names ("BACK (0)", "1"), which say nothing to a user.
+const GENERIC_NAME = /^\s*((back|front|external)\s*)?\(?\d*\)?\s*$/i;
+
+// Factors telephoto lenses are sold under, each with the highest measured ratio
+// still taken for it. The field of view a format reports includes sensor crop
+// and distortion correction, so a 3x lens measures anywhere from 2.7 to 3.6 and
+// overlaps its neighbours; the bounds follow measured devices rather than the
+// midpoints between factors.
+const MARKETED_MAGNIFICATIONS = [
+  { factor: 2, upTo: 2.35 },
+  { factor: 2.5, upTo: 2.65 },
+  { factor: 3, upTo: 3.75 },
+  { factor: 4, upTo: 4.5 },
+  { factor: 5, upTo: 7 },
+  { factor: 10, upTo: Infinity },
+];
+
+const has = (device: CameraDevice, lens: PhysicalCameraDeviceType) =>
+  device.physicalDevices.includes(lens);
+
+const isSingleLens = (device: CameraDevice, lens: PhysicalCameraDeviceType) =>
+  device.physicalDevices.length === 1 && has(device, lens);
+
+const widestFieldOfView = (device: CameraDevice) =>
+  device.formats.reduce((widest, f) => Math.max(widest, f.fieldOfView), 0);
+
+/**
+ * Optical magnification of `device` relative to the main wide lens at the same
+ * position: the ratio of their field-of-view tangents, snapped to the marketed
+ * factor whose range it falls in. Null when either field of view is unknown or
+ * the lens magnifies less than √2 times, too little to pass for a telephoto.
+ */
+export const getMagnification = (
+  device: CameraDevice,
+  devices: CameraDevice[],
+): number | null => {
+  const main = devices.find(
+    d => d.position === device.position && isSingleLens(d, 'wide-angle-camera'),
+  );
+  const mainFov = main ? widestFieldOfView(main) : 0;
+  const fov = widestFieldOfView(device);
+  if (!mainFov || !fov) {
+    return null;
+  }
+  const ratio =
+    Math.tan((mainFov * Math.PI) / 360) / Math.tan((fov * Math.PI) / 360);
+  if (ratio < Math.SQRT2) {
+    return null;
+  }
+  return MARKETED_MAGNIFICATIONS.find(({ upTo }) => ratio < upTo)!.factor;
+};
+
+const describeLenses = (device: CameraDevice, devices: CameraDevice[]) => {
+  const ultraWide = has(device, 'ultra-wide-angle-camera');
+  const wide = has(device, 'wide-angle-camera');
+  const telephoto = has(device, 'telephoto-camera');
+
+  if (device.physicalDevices.length > 1) {
+    if (ultraWide && wide && telephoto) {
+      return 'Triple Camera';
+    }
+    if (ultraWide && wide) {
+      return 'Dual Wide Camera';
+    }
+    if (wide && telephoto) {
+      return 'Dual Camera';
+    }
+    return 'Multi Camera';
+  }
+  if (telephoto) {
+    const magnification = getMagnification(device, devices);
+    return magnification ? `Telephoto ${magnification}x` : 'Telephoto Camera';
+  }
+  if (ultraWide) {
+    return 'Ultra Wide Camera';
+  }
+  return 'Camera';
+};
+
+/** The descriptive label for a device, before duplicates are told apart. */
+export const getBaseDeviceLabel = (
+  device: CameraDevice,
+  devices: CameraDevice[],
+) => {
+  if (device.position === 'external') {
+    return GENERIC_NAME.test(device.name)
+      ? 'External USB Camera'
+      : `External Camera (${device.name})`;
+  }
+  if (device.position === 'front' && /TrueDepth/i.test(device.name)) {
+    return 'Front TrueDepth Camera';
+  }
+  const lenses = describeLenses(device, devices);
+  return `${POSITION_LABELS[device.position]} ${lenses}`;
+};
+
+const maxPhotoMegapixels = (device: CameraDevice) =>
+  Math.round(
+    device.formats.reduce(
+      (max, f) => Math.max(max, f.photoWidth * f.photoHeight),
+      0,
+    ) / 1e6,
+  );
+
+// Tried in order on a group of identically labelled devices; the first one that
+// tells every member apart wins.
+const QUALIFIERS: ((device: CameraDevice) => string)[] = [
+  device => `${Math.round(widestFieldOfView(device))}°`,
+  device =>
+    device.hardwareLevel.charAt(0).toUpperCase() +
+    device.hardwareLevel.slice(1),
+  device => `${maxPhotoMegapixels(device)}MP`,
+  device => `#${device.id}`,
+];
+
+/**
+ * Returns a unique, descriptive label for every device, keyed by device id.
+ * Devices sharing a base label (e.g. two "Back Camera" ids on Android) get a
+ * qualifier such as their FOV, hardware level, resolution or, failing all
+ * of those, their id.
+ */
+export const getDeviceLabels = (devices: CameraDevice[]) => {
+  const groups: { [label: string]: CameraDevice[] } = {};
+  devices.forEach(device => {
+    const label = getBaseDeviceLabel(device, devices);
+    groups[label] = [...(groups[label] ?? []), device];
+  });
+
+  const labels: { [deviceId: string]: string } = {};
+  Object.entries(groups).forEach(([label, group]) => {
+    if (group.length === 1) {
+      labels[group[0].id] = label;
+      return;
+    }
+    const qualifier =
+      QUALIFIERS.find(
+        qualify => new Set(group.map(qualify)).size === group.length,
+      ) ?? QUALIFIERS[QUALIFIERS.length - 1];
+    group.forEach(device => {
+      labels[device.id] = `${label} (${qualifier(device)})`;
+    });
+  });
+  return labels;
+};
@@ -0,0 +1,145 @@
+import { CameraFormat } from './types';
+import { formatResolution } from '../utils/resolution';
+
+// VisionCamera 4 no longer reports pixel formats per format; frame processors
+// can request either of these on any format, so they are listed once for the
+// app rather than per row.
+export const FRAME_PROCESSOR_PIXEL_FORMATS = ['yuv', 'rgb'];
+
+export type FormatSortKey = 'photo' | 'video' | 'fps' | 'fov';
+export type SortDirection = 'asc' | 'desc';
+
+export type FormatFilter =
+  | 'photo-hdr'
+  | 'video-hdr'
+  | 'stabilized'
+  | 'high-fps'
+  | 'depth';
+
+export const FORMAT_SORT_KEYS: FormatSortKey[] = [
+  'photo',
+  'video',
+  'fps',
+  'fov',
+];
+export const FORMAT_FILTERS: FormatFilter[] = [
+  'photo-hdr',
+  'video-hdr',
+  'stabilized',
+  'high-fps',
+  'depth',
+];
+
+export const SORT_KEY_LABELS: { [key in FormatSortKey]: string } = {
+  photo: 'Photo',
+  video: 'Video',
+  fps: 'FPS',
+  fov: 'FOV',
+};
+
+export const FILTER_LABELS: { [filter in FormatFilter]: string } = {
+  'photo-hdr': 'Photo HDR',
+  'video-hdr': 'Video HDR',
+  stabilized: 'Stabilized',
+  'high-fps': '≥ 60 fps',
+  depth: 'Depth',
+};
+
+// One format as shown in the browser, a column per field.
+export type FormatRow = {
+  photo: string;
+  video: string;
+  fps: string;
+  fov: string;
+  hdr: string;
+  stabilization: string;
+  depth: string;
+};
+
+const megapixels = (width: number, height: number) =>
+  `${((width * height) / 1e6).toFixed(1)} MP`;
+
+const SORT_VALUES: {
+  [key in FormatSortKey]: (format: CameraFormat) => number;
+} = {
+  photo: format => format.photoWidth * format.photoHeight,
+  video: format => format.videoWidth * format.videoHeight,
+  fps: format => format.maxFps,
+  fov: format => format.fieldOfView,
+};
+
+const FILTER_TESTS: {
+  [filter in FormatFilter]: (format: CameraFormat) => boolean;
+} = {
+  'photo-hdr': format => format.supportsPhotoHdr,
+  'video-hdr': format => format.supportsVideoHdr,
+  stabilized: format =>
+    format.videoStabilizationModes.some(mode => mode !== 'off'),
+  'high-fps': format => format.maxFps >= 60,
+  depth: format => format.supportsDepthCapture,
+};
+
+export const describeFormatRow = (format: CameraFormat): FormatRow => {
+  const hdr = [
+    format.supportsPhotoHdr && 'photo',
+    format.supportsVideoHdr && 'video',
+  ].filter(Boolean);
+  const stabilization = format.videoStabilizationModes.filter(
+    mode => mode !== 'off',
+  );
+  return {
+    photo: `${formatResolution({
+      width: format.photoWidth,
+      height: format.photoHeight,
+    })} (${megapixels(format.photoWidth, format.photoHeight)})`,
+    video: formatResolution({
+      width: format.videoWidth,
+      height: format.videoHeight,
+    }),
+    fps:
+      format.minFps === format.maxFps
+        ? `${format.maxFps}`
+        : `${format.minFps}-${format.maxFps}`,
+    fov: `${Math.round(format.fieldOfView)}°`,
+    hdr: hdr.length > 0 ? hdr.join(', ') : 'none',
+    stabilization: stabilization.length > 0 ? stabilization.join(', ') : 'off',
+    depth: format.supportsDepthCapture ? 'yes' : 'no',
+  };
+};
+
+/** Formats passing every filter, sorted by `sortKey` with ties broken by photo size. */
+export const browseFormats = (
+  formats: CameraFormat[],
+  filters: FormatFilter[],
+  sortKey: FormatSortKey,
+  direction: SortDirection,
+): CameraFormat[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  return formats
+    .filter(format => filters.every(filter => FILTER_TESTS[filter](format)))
+    .sort(
+      (a, b) =>
+        sign * (SORT_VALUES[sortKey](a) - SORT_VALUES[sortKey](b)) ||
+        sign * (SORT_VALUES.photo(a) - SORT_VALUES.photo(b)),
+    );
+};
+
+export const toggleFilter = (filters: FormatFilter[], filter: FormatFilter) =>
+  filters.includes(filter)
+    ? filters.filter(f => f !== filter)
+    : [...filters, filter];
+
+export type ComparisonSlot = 'A' | 'B';
+export const COMPARISON_SLOTS: ComparisonSlot[] = ['A', 'B'];
+
+export type PinnedFormats = { [slot in ComparisonSlot]: CameraFormat | null };
+export const NO_PINNED_FORMATS: PinnedFormats = { A: null, B: null };
+
+export type ComparisonShot = {
+  slot: ComparisonSlot;
+  format: CameraFormat;
+  path?: string;
+  resolution?: string;
+  size?: number;
+  error?: string;
+};
@@ -0,0 +1,272 @@
+import type {
+  CameraDevice,
+  VideoStabilizationMode,
+} from 'react-native-vision-camera';
+import { CameraFormat } from './types';
+import { Resolution, formatResolution } from '../utils/resolution';
+
+export type AspectRatioMatch = 'exact' | 'approximate';
+
+/**
+ * What the caller needs from a format. Every field is optional; sizes and aspect
+ * ratios are orientation-agnostic, so a 3000x4000 target matches a 4000x3000 format.
+ */
+export type FormatConstraints = {
+  minPhotoSize?: Resolution;
+  aspectRatio?: number;
+  aspectRatioMatch?: AspectRatioMatch;
+  fpsRange?: [minFps: number, maxFps: number];
+  minVideoSize?: Resolution;
+  requirePhotoHdr?: boolean;
+  requireVideoHdr?: boolean;
+  requireStabilization?: VideoStabilizationMode;
+  fovRange?: [minFov: number, maxFov: number];
+};
+
+export type ConstraintName =
+  | 'minPhotoSize'
+  | 'aspectRatio'
+  | 'photoHdr'
+  | 'videoHdr'
+  | 'stabilization'
+  | 'minVideoSize'
+  | 'fpsRange'
+  | 'fovRange';
+
+export type FormatSelection = {
+  format: CameraFormat;
+  satisfied: ConstraintName[];
+  relaxed: ConstraintName[];
+  explanation: string;
+};
+
+export const EXACT_ASPECT_TOLERANCE = 0.01;
+export const APPROXIMATE_ASPECT_TOLERANCE = 0.1;
+
+type Rule = {
+  name: ConstraintName;
+  applies: (c: FormatConstraints) => boolean;
+  test: (format: CameraFormat, c: FormatConstraints) => boolean;
+  describe: (c: FormatConstraints) => string;
+};
+
+const longSide = (r: Resolution) => Math.max(r.width, r.height);
+const shortSide = (r: Resolution) => Math.min(r.width, r.height);
+const normalizedAspect = (r: Resolution) => longSide(r) / shortSide(r);
+
+const photoSize = (f: CameraFormat): Resolution => ({
+  width: f.photoWidth,
+  height: f.photoHeight,
+});
+const videoSize = (f: CameraFormat): Resolution => ({
+  width: f.videoWidth,
+  height: f.videoHeight,
+});
+
+const covers = (size: Resolution, min: Resolution) =>
+  longSide(size) >= longSide(min) && shortSide(size) >= shortSide(min);
+
+const targetAspect = (c: FormatConstraints) =>
+  c.aspectRatio == null ? 1 : Math.max(c.aspectRatio, 1 / c.aspectRatio);
+
+const aspectDistance = (f: CameraFormat, c: FormatConstraints) =>
+  c.aspectRatio == null
+    ? 0
+    : Math.abs(normalizedAspect(photoSize(f)) - targetAspect(c)) /
+      targetAspect(c);
+
+const fovDistance = (f: CameraFormat, c: FormatConstraints) => {
+  if (!c.fovRange) {
+    return 0;
+  }
+  const [min, max] = c.fovRange;
+  if (f.fieldOfView < min) {
+    return min - f.fieldOfView;
+  }
+  return f.fieldOfView > max ? f.fieldOfView - max : 0;
+};
+
+const area = (r: Resolution) => r.width * r.height;
+
+// Ordered from most to least important. Each rule narrows the candidates left by
+// the rules above it; a rule no remaining format can meet is relaxed instead.
+const RULES: Rule[] = [
+  {
+    name: 'minPhotoSize',
+    applies: c => c.minPhotoSize != null,
+    test: (f, c) => covers(photoSize(f), c.minPhotoSize!),
+    describe: c => `photo at least ${formatResolution(c.minPhotoSize!)}`,
+  },
+  {
+    name: 'aspectRatio',
+    applies: c => c.aspectRatio != null,
+    test: (f, c) =>
+      aspectDistance(f, c) <=
+      (c.aspectRatioMatch === 'approximate'
+        ? APPROXIMATE_ASPECT_TOLERANCE
+        : EXACT_ASPECT_TOLERANCE),
+    describe: c =>
+      `${c.aspectRatioMatch ?? 'exact'} aspect ratio ${targetAspect(c).toFixed(
+        2,
+      )}`,
+  },
+  {
+    name: 'photoHdr',
+    applies: c => c.requirePhotoHdr === true,
+    test: f => f.supportsPhotoHdr,
+    describe: () => 'photo HDR',
+  },
+  {
+    name: 'videoHdr',
+    applies: c => c.requireVideoHdr === true,
+    test: f => f.supportsVideoHdr,
+    describe: () => 'video HDR',
+  },
+  {
+    name: 'stabilization',
+    applies: c => c.requireStabilization != null,
+    test: (f, c) => f.videoStabilizationModes.includes(c.requireStabilization!),
+    describe: c => `${c.requireStabilization} stabilization`,
+  },
+  {
+    name: 'minVideoSize',
+    applies: c => c.minVideoSize != null,
+    test: (f, c) => covers(videoSize(f), c.minVideoSize!),
+    describe: c => `video at least ${formatResolution(c.minVideoSize!)}`,
+  },
+  {
+    name: 'fpsRange',
+    applies: c => c.fpsRange != null,
+    test: (f, c) => f.minFps <= c.fpsRange![0] && f.maxFps >= c.fpsRange![1],
+    describe: c => `${c.fpsRange![0]}-${c.fpsRange![1]} fps`,
+  },
+  {
+    name: 'fovRange',
+    applies: c => c.fovRange != null,
+    test: (f, c) => fovDistance(f, c) === 0,
+    describe: c => `field of view ${c.fovRange![0]}-${c.fovRange![1]}°`,
+  },
+];
+
+// Among formats that pass the same rules, prefer the smallest video and then the
+// smallest photo that still cover their targets (or the largest ones when nothing
+// does), then the closest aspect ratio, fps coverage, FOV band distance and
+// finally the larger video stream.
+const compareCandidates =
+  (c: FormatConstraints) =>
+  (a: CameraFormat, b: CameraFormat): number => {
+    if (c.minVideoSize) {
+      const videoAreaA = area(videoSize(a));
+      const videoAreaB = area(videoSize(b));
+      const aCovers = covers(videoSize(a), c.minVideoSize);
+      const bCovers = covers(videoSize(b), c.minVideoSize);
+      if (aCovers !== bCovers) {
+        return aCovers ? -1 : 1;
+      }
+      if (videoAreaA !== videoAreaB) {
+        return aCovers ? videoAreaA - videoAreaB : videoAreaB - videoAreaA;
+      }
+    }
+
+    const areaA = area(photoSize(a));
+    const areaB = area(photoSize(b));
+    if (areaA !== areaB) {
+      const aCovers = c.minPhotoSize
+        ? covers(photoSize(a), c.minPhotoSize)
+        : true;
+      const bCovers = c.minPhotoSize
+        ? covers(photoSize(b), c.minPhotoSize)
+        : true;
+      if (aCovers !== bCovers) {
+        return aCovers ? -1 : 1;
+      }
+      return c.minPhotoSize && aCovers ? areaA - areaB : areaB - areaA;
+    }
+
+    const aspectDiff = aspectDistance(a, c) - aspectDistance(b, c);
+    if (Math.abs(aspectDiff) > 1e-6) {
+      return aspectDiff;
+    }
+
+    if (c.fpsRange) {
+      const fpsGapA = Math.max(0, c.fpsRange[1] - a.maxFps);
+      const fpsGapB = Math.max(0, c.fpsRange[1] - b.maxFps);
+      if (fpsGapA !== fpsGapB) {
+        return fpsGapA - fpsGapB;
+      }
+    }
+
+    const fovDiff = fovDistance(a, c) - fovDistance(b, c);
+    if (fovDiff !== 0) {
+      return fovDiff;
+    }
+
+    const videoDiff = area(videoSize(b)) - area(videoSize(a));
+    if (videoDiff !== 0) {
+      return videoDiff;
+    }
+    return b.maxFps - a.maxFps;
+  };
+
+const describeFormat = (f: CameraFormat) =>
+  `photo ${f.photoWidth}x${f.photoHeight}, video ${f.videoWidth}x${
+    f.videoHeight
+  } @ ${f.minFps}-${f.maxFps} fps, FOV ${Math.round(f.fieldOfView)}°`;
+
+/**
+ * Picks the format that satisfies the most important constraints, relaxing a
+ * constraint only when no format left by the more important ones can meet it.
+ */
+export const selectCameraFormat = (
+  formats: CameraFormat[],
+  constraints: FormatConstraints,
+): FormatSelection | undefined => {
+  if (formats.length === 0) {
+    return undefined;
+  }
+
+  const satisfied: Rule[] = [];
+  const relaxed: Rule[] = [];
+  let candidates = formats;
+
+  for (const rule of RULES) {
+    if (!rule.applies(constraints)) {
+      continue;
+    }
+    const passing = candidates.filter(f => rule.test(f, constraints));
+    if (passing.length > 0) {
+      candidates = passing;
+      satisfied.push(rule);
+    } else {
+      relaxed.push(rule);
+    }
+  }
+
+  const format = [...candidates].sort(compareCandidates(constraints))[0];
+
+  const lines = [`Chose ${describeFormat(format)}.`];
+  if (satisfied.length > 0) {
+    lines.push(
+      `Meets: ${satisfied.map(rule => rule.describe(constraints)).join(', ')}.`,
+    );
+  }
+  if (relaxed.length > 0) {
+    lines.push(
+      `Relaxed (no remaining format provides it): ${relaxed
+        .map(rule => rule.describe(constraints))
+        .join(', ')}.`,
+    );
+  }
+
+  return {
+    format,
+    satisfied: satisfied.map(rule => rule.name),
+    relaxed: relaxed.map(rule => rule.name),
+    explanation: lines.join('\n'),
+  };
+};
+
+export const selectFormatForDevice = (
+  device: CameraDevice,
+  constraints: FormatConstraints,
+) => selectCameraFormat(device.formats, constraints);
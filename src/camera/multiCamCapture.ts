@@ -0,0 +1,96 @@
+import type {
+  CameraDevice,
+  PhysicalCameraDeviceType,
+} from 'react-native-vision-camera';
+import { PhotoExif } from '../processing/photoMetadata';
+
+// A logical multi-cam device and the separately exposed lenses it is made of.
+export type CameraOutputTargets = {
+  logicalCamera: CameraDevice;
+  firstPhysicalCamera?: CameraDevice;
+  secondPhysicalCamera?: CameraDevice;
+};
+
+export type LensRole = 'logical' | 'first' | 'second';
+
+export type LensTarget = { role: LensRole; device: CameraDevice };
+
+export type LensShot = {
+  role: LensRole;
+  device: CameraDevice;
+  fieldOfView?: number;
+  path?: string;
+  resolution?: string;
+  size?: number;
+  exif?: PhotoExif;
+  error?: string;
+};
+
+// The logical camera already shows the wide lens at its neutral zoom, so the
+// other lenses are more interesting to pair it with.
+const PHYSICAL_LENS_PREFERENCE: PhysicalCameraDeviceType[] = [
+  'ultra-wide-angle-camera',
+  'telephoto-camera',
+  'wide-angle-camera',
+];
+
+/**
+ * The lenses that make up `logical`, matched to single-lens devices facing
+ * the same way. Returns null unless at least one lens is exposed on its own;
+ * many Android phones only expose the logical camera.
+ */
+export const getCameraOutputTargets = (
+  logical: CameraDevice,
+  devices: CameraDevice[],
+): CameraOutputTargets | null => {
+  if (!logical.isMultiCam) {
+    return null;
+  }
+  const lenses = PHYSICAL_LENS_PREFERENCE.filter(type =>
+    logical.physicalDevices.includes(type),
+  )
+    .map(type =>
+      devices.find(
+        device =>
+          device.id !== logical.id &&
+          device.position === logical.position &&
+          device.physicalDevices.length === 1 &&
+          device.physicalDevices[0] === type,
+      ),
+    )
+    .filter((device): device is CameraDevice => device != null);
+  if (lenses.length === 0) {
+    return null;
+  }
+  return {
+    logicalCamera: logical,
+    firstPhysicalCamera: lenses[0],
+    secondPhysicalCamera: lenses[1],
+  };
+};
+
+export const listLensTargets = (targets: CameraOutputTargets): LensTarget[] =>
+  [
+    { role: 'logical' as const, device: targets.logicalCamera },
+    { role: 'first' as const, device: targets.firstPhysicalCamera },
+    { role: 'second' as const, device: targets.secondPhysicalCamera },
+  ].filter((target): target is LensTarget => target.device != null);
+
+const LENS_LABELS: { [type in PhysicalCameraDeviceType]: string } = {
+  'ultra-wide-angle-camera': 'Ultra wide',
+  'wide-angle-camera': 'Wide',
+  'telephoto-camera': 'Telephoto',
+};
+
+export const getLensLabel = ({ role, device }: LensTarget) =>
+  role === 'logical' ? 'Logical' : LENS_LABELS[device.physicalDevices[0]];
+
+export const describeLensShot = (shot: LensShot) => {
+  const label = getLensLabel(shot);
+  if (shot.error) {
+    return `${label}: failed (${shot.error})`;
+  }
+  const fov =
+    shot.fieldOfView != null ? `, FOV ${Math.round(shot.fieldOfView)}°` : '';
+  return `${label}: ${shot.resolution ?? 'unknown size'}${fov}`;
+};
@@ -0,0 +1,96 @@
+import type { Orientation } from 'react-native-vision-camera';
+import { ratioKeyForSize } from './resolutionCatalog';
+import { Resolution } from '../utils/resolution';
+
+// Clockwise rotation of the device from upright, as VisionCamera reports it.
+export const ORIENTATION_DEGREES: { [orientation in Orientation]: number } = {
+  portrait: 0,
+  'landscape-left': 90,
+  'portrait-upside-down': 180,
+  'landscape-right': 270,
+};
+
+export const isLandscape = (orientation: Orientation) =>
+  orientation === 'landscape-left' || orientation === 'landscape-right';
+
+/**
+ * Degrees to turn an icon so it reads upright while the UI stays locked to
+ * portrait. Kept within ±180 so a rotation animation takes the short way round.
+ */
+export const getIconRotation = (orientation: Orientation) => {
+  const degrees = (360 - ORIENTATION_DEGREES[orientation]) % 360;
+  return degrees > 180 ? degrees - 360 : degrees;
+};
+
+/** `size` with its long side along the axis `orientation` holds upright. */
+export const orientResolution = (
+  size: Resolution,
+  orientation: Orientation,
+): Resolution => {
+  const long = Math.max(size.width, size.height);
+  const short = Math.min(size.width, size.height);
+  return isLandscape(orientation)
+    ? { width: long, height: short }
+    : { width: short, height: long };
+};
+
+/**
+ * How a photo size, upright for the device held in `orientation`, appears on
+ * the portrait-locked screen: turned a quarter when the device is landscape.
+ */
+export const toScreenSize = (
+  size: Resolution,
+  orientation: Orientation,
+): Resolution =>
+  isLandscape(orientation) ? { width: size.height, height: size.width } : size;
+
+const RATIO_KEY_PATTERN = /^(\d+)x(\d+) (Landscape|Portrait) /;
+
+/**
+ * The portrait or landscape variant of a catalog ratio key to match
+ * `orientation`, e.g. '3x4 Portrait (3:4)' becomes '4x3 Landscape (4:3)'.
+ * Square and unrecognised keys are returned as they are.
+ */
+export const orientRatioKey = (key: string, orientation: Orientation) => {
+  const match = RATIO_KEY_PATTERN.exec(key);
+  if (!match) {
+    return key;
+  }
+  return ratioKeyForSize(
+    orientResolution(
+      { width: Number(match[1]), height: Number(match[2]) },
+      orientation,
+    ),
+  );
+};
+
+// EXIF orientation values as the clockwise turn that displays the stored
+// pixels upright; 2, 4, 5 and 7 are additionally mirrored.
+const EXIF_ROTATIONS: { [exifOrientation: number]: number } = {
+  1: 0,
+  2: 0,
+  3: 180,
+  4: 180,
+  5: 90,
+  6: 90,
+  7: 270,
+  8: 270,
+};
+const EXIF_FOR_ROTATION: { [degrees: number]: number } = {
+  0: 1,
+  90: 6,
+  180: 3,
+  270: 8,
+};
+
+export const getExifRotation = (exifOrientation: number) =>
+  EXIF_ROTATIONS[exifOrientation] ?? 0;
+
+export const toExifOrientation = (degrees: number) =>
+  EXIF_FOR_ROTATION[degrees] ?? 1;
+
+export const isQuarterTurn = (degrees: number) => degrees % 180 !== 0;
+
+/** How an upright `size` is laid out in pixels still needing `degrees`. */
+export const getStoredSize = (size: Resolution, degrees: number): Resolution =>
+  isQuarterTurn(degrees) ? { width: size.height, height: size.width } : size;
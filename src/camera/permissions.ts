@@ -0,0 +1,80 @@
+import type { CameraPermissionStatus } from 'react-native-vision-camera';
+
+export type PermissionKind = 'camera' | 'microphone' | 'location';
+
+export type PermissionStatuses = {
+  [kind in PermissionKind]: CameraPermissionStatus;
+};
+
+// What the user can do about a permission in its current state.
+export type PermissionAction = 'none' | 'request' | 'open-settings' | 'blocked';
+
+export const PERMISSION_KINDS: PermissionKind[] = [
+  'camera',
+  'microphone',
+  'location',
+];
+
+export const PERMISSION_INFO: {
+  [kind in PermissionKind]: {
+    title: string;
+    reason: string;
+    required: boolean;
+  };
+} = {
+  camera: {
+    title: 'Camera',
+    reason: 'Needed to show the preview and take photos and videos.',
+    required: true,
+  },
+  microphone: {
+    title: 'Microphone',
+    reason: 'Records sound with videos. Without it videos are silent.',
+    required: false,
+  },
+  location: {
+    title: 'Location',
+    reason: 'Geotags photos with where they were taken. Optional.',
+    required: false,
+  },
+};
+
+/**
+ * Android reports "denied" before it has ever asked, and a denied permission
+ * can still be prompted for until the user refuses it for good. So "denied"
+ * offers a request, and only once a request has come back still denied
+ * (`refusedAfterRequest`) is the user sent to Settings.
+ */
+export const getPermissionAction = (
+  status: CameraPermissionStatus,
+  refusedAfterRequest = false,
+): PermissionAction => {
+  switch (status) {
+    case 'granted':
+      return 'none';
+    case 'not-determined':
+      return 'request';
+    case 'denied':
+      return refusedAfterRequest ? 'open-settings' : 'request';
+    default:
+      return 'blocked';
+  }
+};
+
+export const describePermissionStatus = (status: CameraPermissionStatus) => {
+  switch (status) {
+    case 'granted':
+      return 'Allowed';
+    case 'not-determined':
+      return 'Not asked yet';
+    case 'denied':
+      return 'Denied';
+    default:
+      return 'Restricted by device policy';
+  }
+};
+
+export const hasRequiredPermissions = (statuses: PermissionStatuses) =>
+  PERMISSION_KINDS.every(
+    kind => !PERMISSION_INFO[kind].required || statuses[kind] === 'granted',
+  );
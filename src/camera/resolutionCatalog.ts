@@ -0,0 +1,219 @@
+import { CameraFormat } from './types';
+import {
+  Resolution,
+  formatResolution,
+  parseResolutionString,
+} from '../utils/resolution';
+
+export type ResolutionOption = {
+  resolution: string;
+  width: number;
+  height: number;
+  native: boolean;
+  requiresCrop: boolean;
+  requiresDownscale: boolean;
+};
+
+export type RatioGroup = {
+  key: string;
+  aspectRatio: number;
+  options: ResolutionOption[];
+};
+
+const compareResolutions = (a: string, b: string) => {
+  const resA = parseResolutionString(a);
+  const resB = parseResolutionString(b);
+  if (resA.width !== resB.width) {
+    return resA.width - resB.width;
+  }
+  return resA.height - resB.height;
+};
+
+// prettier-ignore
+const STANDARD_RESOLUTIONS: { [key: string]: string[] } = {
+  'Square (1:1)': [
+    '720x720', '960x960', '1080x1080', '1200x1200', '1280x1280',
+    '1440x1440', '1600x1600', '1920x1920', '2048x2048',
+    '2160x2160', '2560x2560', '3000x3000', '3024x3024',
+  ],
+  '4x3 Landscape (4:3)': [
+    '960x720', '1280x960', '1440x1080', '1600x1200',
+    '2048x1536', '2448x1836', '2560x1920', '2880x2160', '3024x2268',
+  ],
+  '3x4 Portrait (3:4)': [
+    '720x960', '960x1280', '1080x1440', '1200x1600',
+    '1536x2048', '1836x2448', '1920x2560', '2160x2880',
+    '2268x3024', '3000x4000', '3024x4032',
+  ],
+  '16x9 Landscape (16:9)': [
+    '1280x720', '1600x900', '1920x1080', '2160x1215',
+    '2560x1440', '3024x1701',
+  ],
+  '9x16 Portrait (9:16)': [
+    '720x1280', '900x1600', '1080x1920', '1215x2160',
+    '1440x2560', '1701x3024', '2160x3840', '2268x4032',
+  ],
+};
+
+/** Curated sizes our backends commonly ask for, keyed by ratio. */
+export const STANDARD_RESOLUTIONS_BY_RATIO: { [key: string]: string[] } =
+  Object.fromEntries(
+    Object.entries(STANDARD_RESOLUTIONS).map(([key, list]) => [
+      key,
+      [...list].sort(compareResolutions),
+    ]),
+  );
+
+// Sensor sizes are rarely an exact ratio (4080x3072 is "4:3"), so snap to the
+// ratios people actually name before falling back to the exact reduced fraction.
+const COMMON_RATIOS: [number, number][] = [
+  [1, 1],
+  [5, 4],
+  [4, 3],
+  [3, 2],
+  [16, 10],
+  [16, 9],
+  [2, 1],
+  [20, 9],
+];
+const RATIO_SNAP_TOLERANCE = 0.01;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+export const reduceAspectRatio = (size: Resolution): [number, number] => {
+  const long = Math.max(size.width, size.height);
+  const short = Math.min(size.width, size.height);
+  const snapped = COMMON_RATIOS.find(
+    ([w, h]) =>
+      Math.abs(long / short - w / h) / (w / h) <= RATIO_SNAP_TOLERANCE,
+  );
+  if (snapped) {
+    return snapped;
+  }
+  const divisor = gcd(long, short);
+  return [long / divisor, short / divisor];
+};
+
+export const ratioKeyForSize = (size: Resolution) => {
+  const [long, short] = reduceAspectRatio(size);
+  if (long === short) {
+    return 'Square (1:1)';
+  }
+  return size.width >= size.height
+    ? `${long}x${short} Landscape (${long}:${short})`
+    : `${short}x${long} Portrait (${short}:${long})`;
+};
+
+const portraitOf = (size: Resolution): Resolution => ({
+  width: Math.min(size.width, size.height),
+  height: Math.max(size.width, size.height),
+});
+const landscapeOf = (size: Resolution): Resolution => ({
+  width: Math.max(size.width, size.height),
+  height: Math.min(size.width, size.height),
+});
+
+const covers = (native: Resolution, target: Resolution) =>
+  native.width >= target.width && native.height >= target.height;
+
+/**
+ * Builds the ratio/resolution menu from the photo sizes the device's formats
+ * actually deliver. Each native landscape size is also offered as portrait, since
+ * holding the phone upright rotates the same sensor output. Curated standard
+ * sizes are only added on request, and only where some native size covers them.
+ */
+export const buildResolutionCatalog = (
+  formats: CameraFormat[],
+  includeStandard: boolean,
+): RatioGroup[] => {
+  const nativeSizes = new Map<string, Resolution>();
+  formats
+    .filter(f => f.photoWidth > 0 && f.photoHeight > 0)
+    .forEach(f => {
+      const landscape = landscapeOf({
+        width: f.photoWidth,
+        height: f.photoHeight,
+      });
+      const variants =
+        landscape.width === landscape.height
+          ? [landscape]
+          : [landscape, portraitOf(landscape)];
+      variants.forEach(size => nativeSizes.set(formatResolution(size), size));
+    });
+
+  const groups = new Map<string, RatioGroup>();
+  const groupFor = (key: string, size: Resolution) => {
+    let group = groups.get(key);
+    if (!group) {
+      const [long, short] = reduceAspectRatio(size);
+      group = {
+        key,
+        aspectRatio: size.width >= size.height ? long / short : short / long,
+        options: [],
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  [...nativeSizes.values()]
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .forEach(size => {
+      groupFor(ratioKeyForSize(size), size).options.push({
+        resolution: formatResolution(size),
+        width: size.width,
+        height: size.height,
+        native: true,
+        requiresCrop: false,
+        requiresDownscale: false,
+      });
+    });
+
+  if (includeStandard) {
+    Object.entries(STANDARD_RESOLUTIONS_BY_RATIO).forEach(([key, list]) => {
+      list.forEach(resolution => {
+        if (nativeSizes.has(resolution)) {
+          return;
+        }
+        const size = parseResolutionString(resolution);
+        const coveringNatives = [...nativeSizes.values()].filter(native =>
+          covers(native, size),
+        );
+        if (coveringNatives.length === 0) {
+          return;
+        }
+        groupFor(key, size).options.push({
+          resolution,
+          width: size.width,
+          height: size.height,
+          native: false,
+          requiresCrop: !coveringNatives.some(
+            native => ratioKeyForSize(native) === key,
+          ),
+          requiresDownscale: true,
+        });
+      });
+    });
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    const squareA = Math.abs(a.aspectRatio - 1) < 1e-6;
+    const squareB = Math.abs(b.aspectRatio - 1) < 1e-6;
+    if (squareA !== squareB) {
+      return squareA ? -1 : 1;
+    }
+    const longA = Math.max(a.aspectRatio, 1 / a.aspectRatio);
+    const longB = Math.max(b.aspectRatio, 1 / b.aspectRatio);
+    if (Math.abs(longA - longB) > 1e-6) {
+      return longA - longB;
+    }
+    return b.aspectRatio - a.aspectRatio;
+  });
+};
+
+export const describeResolutionOption = (option: ResolutionOption) => {
+  if (option.native) {
+    return 'Native';
+  }
+  return option.requiresCrop ? 'Crop + downscale' : 'Downscale';
+};
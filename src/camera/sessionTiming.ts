@@ -0,0 +1,111 @@
+// The parts of the `<Camera>` configuration whose changes are timed. Switching
+// the device or format always makes vision-camera restart the session.
+export type SessionConfig = {
+  deviceId: string;
+  format: string | null;
+  isActive: boolean;
+};
+
+export type RestartSample = {
+  reason: string;
+  durationMs: number;
+  completedAt: number;
+};
+
+export type SessionTiming = {
+  pending: { reason: string; startedAt: number } | null;
+  samples: RestartSample[];
+};
+
+export type RestartSummary = {
+  count: number;
+  last: RestartSample | null;
+  averageMs: number | null;
+  maxMs: number | null;
+};
+
+export const MAX_RESTART_SAMPLES = 20;
+
+// A restart without a preview frame by then has failed or never happened, and
+// is dropped rather than recorded with a meaningless duration.
+export const RESTART_TIMEOUT_MS = 10000;
+
+export const INITIAL_SESSION_TIMING: SessionTiming = {
+  pending: null,
+  samples: [],
+};
+
+/**
+ * Why the session restarts when going from `previous` to `next`, or null when
+ * neither the device nor the format changed on a running camera. Starting,
+ * pausing and resuming are not measured.
+ */
+export const describeSessionChange = (
+  previous: SessionConfig | null,
+  next: SessionConfig,
+): string | null => {
+  if (!previous?.isActive || !next.isActive) {
+    return null;
+  }
+  const changes = [
+    previous.deviceId !== next.deviceId && 'device',
+    previous.format !== next.format && 'format',
+  ].filter(Boolean);
+  return changes.length > 0 ? changes.join(' + ') : null;
+};
+
+export const startRestart = (
+  timing: SessionTiming,
+  reason: string,
+  now: number,
+): SessionTiming => ({ ...timing, pending: { reason, startedAt: now } });
+
+// Pausing the camera or a session error abandons a restart that has not
+// finished yet.
+export const cancelRestart = (timing: SessionTiming): SessionTiming =>
+  timing.pending ? { ...timing, pending: null } : timing;
+
+const isExpired = (timing: SessionTiming, now: number) =>
+  timing.pending != null &&
+  now - timing.pending.startedAt >= RESTART_TIMEOUT_MS;
+
+/** Drops the pending restart once it has waited `RESTART_TIMEOUT_MS`. */
+export const expireRestart = (
+  timing: SessionTiming,
+  now: number,
+): SessionTiming => (isExpired(timing, now) ? cancelRestart(timing) : timing);
+
+/** Records the pending restart as finished, e.g. when the preview shows a frame. */
+export const completeRestart = (
+  timing: SessionTiming,
+  now: number,
+): SessionTiming => {
+  if (!timing.pending) {
+    return timing;
+  }
+  if (isExpired(timing, now)) {
+    return cancelRestart(timing);
+  }
+  const sample = {
+    reason: timing.pending.reason,
+    durationMs: now - timing.pending.startedAt,
+    completedAt: now,
+  };
+  return {
+    pending: null,
+    samples: [sample, ...timing.samples].slice(0, MAX_RESTART_SAMPLES),
+  };
+};
+
+export const summarizeRestarts = (samples: RestartSample[]): RestartSummary => {
+  if (samples.length === 0) {
+    return { count: 0, last: null, averageMs: null, maxMs: null };
+  }
+  const durations = samples.map(sample => sample.durationMs);
+  return {
+    count: samples.length,
+    last: samples[0],
+    averageMs: durations.reduce((sum, ms) => sum + ms, 0) / samples.length,
+    maxMs: Math.max(...durations),
+  };
+};
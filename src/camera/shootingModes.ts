@@ -0,0 +1,123 @@
+import { formatFileSize } from '../utils/formatting';
+
+export type ShootingMode = 'single' | 'timer' | 'burst' | 'interval';
+
+export type ShootingSettings = {
+  mode: ShootingMode;
+  timerSeconds: number;
+  burstCount: number;
+  intervalSeconds: number;
+  // null keeps shooting until stopped.
+  intervalCount: number | null;
+};
+
+export const TIMER_SECONDS = [3, 10];
+export const BURST_COUNTS = [3, 5, 10, 20];
+export const INTERVAL_SECONDS = [1, 2, 5, 10, 30, 60];
+export const INTERVAL_COUNTS: (number | null)[] = [null, 10, 30, 100];
+
+export const DEFAULT_SHOOTING_SETTINGS: ShootingSettings = {
+  mode: 'single',
+  timerSeconds: 3,
+  burstCount: 5,
+  intervalSeconds: 5,
+  intervalCount: null,
+};
+
+export const describeShootingSettings = (settings: ShootingSettings) => {
+  switch (settings.mode) {
+    case 'timer':
+      return `Timer ${settings.timerSeconds}s`;
+    case 'burst':
+      return `Burst ×${settings.burstCount}`;
+    case 'interval':
+      return settings.intervalCount == null
+        ? `Every ${settings.intervalSeconds}s`
+        : `Every ${settings.intervalSeconds}s ×${settings.intervalCount}`;
+    default:
+      return 'Single';
+  }
+};
+
+export type ShotResult = {
+  index: number;
+  capturedAt: number;
+  path?: string;
+  rawResolution?: string;
+  finalResolution?: string;
+  size?: number;
+  // How the output profile wrote the file, e.g. "JPEG 90%".
+  format?: string;
+  warning?: string;
+  error?: string;
+};
+
+export type SequenceReport = {
+  settings: ShootingSettings;
+  requested: number | null;
+  shots: ShotResult[];
+  startedAt: number;
+  stopped: boolean;
+};
+
+export const summarizeSequence = (report: SequenceReport) => {
+  const succeeded = report.shots.filter(shot => !shot.error);
+  const lastCapture = report.shots.reduce(
+    (latest, shot) => Math.max(latest, shot.capturedAt),
+    report.startedAt,
+  );
+  const seconds = (lastCapture - report.startedAt) / 1000;
+  return {
+    taken: report.shots.length,
+    succeeded: succeeded.length,
+    failed: report.shots.length - succeeded.length,
+    seconds,
+    shotsPerSecond: seconds > 0 ? report.shots.length / seconds : 0,
+    totalSize: succeeded.reduce((sum, shot) => sum + (shot.size ?? 0), 0),
+  };
+};
+
+const MAX_LISTED_SHOTS = 10;
+
+const describeShot = (shot: ShotResult) => {
+  if (shot.error) {
+    return `#${shot.index + 1} failed: ${shot.error}`;
+  }
+  const resolution =
+    shot.rawResolution === shot.finalResolution
+      ? shot.finalResolution
+      : `${shot.rawResolution} → ${shot.finalResolution}`;
+  const size = shot.size != null ? `, ${formatFileSize(shot.size)}` : '';
+  const format = shot.format ? `, ${shot.format}` : '';
+  const warning = shot.warning ? ' (with warnings)' : '';
+  return `#${shot.index + 1} ${resolution}${size}${format}${warning}`;
+};
+
+export const describeSequenceReport = (report: SequenceReport) => {
+  const summary = summarizeSequence(report);
+  const requested =
+    report.requested != null
+      ? `${summary.taken}/${report.requested}`
+      : summary.taken;
+  const lines = [`${requested} shots in ${summary.seconds.toFixed(1)}s`];
+  if (report.settings.mode === 'burst') {
+    lines.push(`Achieved ${summary.shotsPerSecond.toFixed(1)} shots/second`);
+  }
+  if (summary.failed > 0) {
+    lines.push(`Failed: ${summary.failed}`);
+  }
+  if (summary.totalSize > 0) {
+    lines.push(`Total size: ${formatFileSize(summary.totalSize)}`);
+  }
+  if (report.stopped && report.requested != null) {
+    lines.push('Stopped before completion.');
+  }
+  lines.push('');
+  report.shots.slice(0, MAX_LISTED_SHOTS).forEach(shot => {
+    lines.push(describeShot(shot));
+  });
+  if (report.shots.length > MAX_LISTED_SHOTS) {
+    lines.push(`…and ${report.shots.length - MAX_LISTED_SHOTS} more`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,3 @@
+import type { CameraDeviceFormat } from 'react-native-vision-camera';
+
+export type CameraFormat = CameraDeviceFormat;
@@ -0,0 +1,30 @@
+import { CameraFormat } from './types';
+import { Resolution, formatResolution } from '../utils/resolution';
+
+export const COMMON_FRAME_RATES = [24, 25, 30, 48, 50, 60, 120, 240];
+
+export const getVideoResolutions = (formats: CameraFormat[]): string[] => {
+  const seen = new Map<string, Resolution>();
+  formats.forEach(f => {
+    const size = { width: f.videoWidth, height: f.videoHeight };
+    seen.set(formatResolution(size), size);
+  });
+  return [...seen.entries()]
+    .sort(([, a], [, b]) => b.width * b.height - a.width * a.height)
+    .map(([key]) => key);
+};
+
+// Only offers the frame rates a format at this video size can actually run at.
+export const getFrameRatesForResolution = (
+  formats: CameraFormat[],
+  videoResolution: Resolution,
+): number[] => {
+  const matching = formats.filter(
+    f =>
+      f.videoWidth === videoResolution.width &&
+      f.videoHeight === videoResolution.height,
+  );
+  return COMMON_FRAME_RATES.filter(fps =>
+    matching.some(f => f.minFps <= fps && f.maxFps >= fps),
+  );
+};
@@ -0,0 +1,70 @@
+import type { CameraDevice } from 'react-native-vision-camera';
+import { getMagnification } from './deviceNaming';
+
+export type ZoomPreset = { label: string; zoom: number };
+
+export const clampZoom = (zoom: number, minZoom: number, maxZoom: number) =>
+  Math.min(Math.max(zoom, minZoom), maxZoom);
+
+// Zoom as users know it from the system camera app: the wide lens is "1x".
+export const toDisplayZoom = (zoom: number, neutralZoom: number) =>
+  zoom / (neutralZoom || 1);
+
+export const formatDisplayZoom = (zoom: number, neutralZoom: number) => {
+  const display = toDisplayZoom(zoom, neutralZoom);
+  return `${Number(display.toFixed(display < 1 ? 1 : 2))}x`;
+};
+
+/**
+ * Magnification of the telephoto lens a multi-cam `device` switches to, taken
+ * from the single-lens telephoto device at the same position. The device API
+ * does not expose the switch-over zoom factors themselves.
+ */
+const getTelephotoMagnification = (
+  device: CameraDevice,
+  devices: CameraDevice[],
+) => {
+  const telephoto = devices.find(
+    d =>
+      d.position === device.position &&
+      d.physicalDevices.length === 1 &&
+      d.physicalDevices[0] === 'telephoto-camera',
+  );
+  return telephoto ? getMagnification(telephoto, devices) : null;
+};
+
+export const getZoomPresets = (
+  device: CameraDevice,
+  devices: CameraDevice[],
+): ZoomPreset[] => {
+  const neutralZoom = device.neutralZoom || 1;
+  const candidates: number[] = [neutralZoom, neutralZoom * 2];
+
+  if (device.physicalDevices.includes('ultra-wide-angle-camera')) {
+    candidates.push(device.minZoom);
+  }
+  const magnification =
+    device.physicalDevices.includes('wide-angle-camera') &&
+    device.physicalDevices.includes('telephoto-camera')
+      ? getTelephotoMagnification(device, devices)
+      : null;
+  if (magnification) {
+    candidates.push(neutralZoom * magnification);
+  }
+
+  return [...new Set(candidates)]
+    .filter(zoom => zoom >= device.minZoom && zoom <= device.maxZoom)
+    .sort((a, b) => a - b)
+    .map(zoom => ({ label: formatDisplayZoom(zoom, neutralZoom), zoom }));
+};
+
+export const zoomFromPinch = (
+  startZoom: number,
+  startDistance: number,
+  currentDistance: number,
+  minZoom: number,
+  maxZoom: number,
+) =>
+  startDistance > 0
+    ? clampZoom(startZoom * (currentDistance / startDistance), minZoom, maxZoom)
+    : startZoom;
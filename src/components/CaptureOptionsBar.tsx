@@ -0,0 +1,130 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  CaptureCapabilities,
+  CaptureOptions,
+  FLASH_MODES,
+  QUALITY_BALANCES,
+} from '../camera/captureOptions';
+
+type Props = {
+  options: CaptureOptions;
+  capabilities: CaptureCapabilities;
+  onChange: (options: CaptureOptions) => void;
+};
+
+const next = <T,>(values: T[], current: T) =>
+  values[(values.indexOf(current) + 1) % values.length];
+
+const FLASH_LABELS = { off: '⚡ Off', on: '⚡ On', auto: '⚡ Auto' };
+const QUALITY_LABELS = {
+  quality: 'Q: Max',
+  balanced: 'Q: Bal',
+  speed: 'Q: Fast',
+};
+
+function CaptureOptionsBar({
+  options,
+  capabilities,
+  onChange,
+}: Props): React.JSX.Element {
+  return (
+    <View style={styles.container}>
+      {capabilities.flash && (
+        <TouchableOpacity
+          style={[
+            styles.option,
+            options.flash !== 'off' && styles.activeOption,
+          ]}
+          onPress={() =>
+            onChange({ ...options, flash: next(FLASH_MODES, options.flash) })
+          }
+        >
+          <Text style={styles.optionText}>{FLASH_LABELS[options.flash]}</Text>
+        </TouchableOpacity>
+      )}
+
+      {capabilities.torch && (
+        <TouchableOpacity
+          style={[styles.option, options.torch && styles.activeOption]}
+          onPress={() => onChange({ ...options, torch: !options.torch })}
+        >
+          <Text style={styles.optionText}>
+            🔦 {options.torch ? 'On' : 'Off'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {capabilities.photoHdr && (
+        <TouchableOpacity
+          style={[styles.option, options.photoHdr && styles.activeOption]}
+          onPress={() =>
+            onChange({
+              ...options,
+              photoHdr: !options.photoHdr,
+              lowLightBoost: options.photoHdr ? options.lowLightBoost : false,
+            })
+          }
+        >
+          <Text style={styles.optionText}>HDR</Text>
+        </TouchableOpacity>
+      )}
+
+      {capabilities.lowLightBoost && (
+        <TouchableOpacity
+          style={[styles.option, options.lowLightBoost && styles.activeOption]}
+          onPress={() =>
+            onChange({
+              ...options,
+              lowLightBoost: !options.lowLightBoost,
+              photoHdr: options.lowLightBoost ? options.photoHdr : false,
+            })
+          }
+        >
+          <Text style={styles.optionText}>🌙 Boost</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity
+        style={styles.option}
+        onPress={() =>
+          onChange({
+            ...options,
+            qualityBalance: next(QUALITY_BALANCES, options.qualityBalance),
+          })
+        }
+      >
+        <Text style={styles.optionText}>
+          {QUALITY_LABELS[options.qualityBalance]}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 90,
+    left: 20,
+    zIndex: 10,
+  },
+  option: {
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderRadius: 14,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginBottom: 8,
+    alignItems: 'center',
+  },
+  activeOption: {
+    backgroundColor: 'rgba(255,204,0,0.9)',
+  },
+  optionText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+});
+
+export default CaptureOptionsBar;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+type Props<T> = {
+  title: string;
+  values: T[];
+  // A list marks several chips as selected, for rows that toggle values.
+  selected: T | T[];
+  format: (value: T) => string;
+  onSelect: (value: T) => void;
+};
+
+function ChipRow<T>({
+  title,
+  values,
+  selected,
+  format,
+  onSelect,
+}: Props<T>): React.JSX.Element {
+  const isSelected = (value: T) =>
+    Array.isArray(selected) ? selected.includes(value) : value === selected;
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowTitle}>{title}</Text>
+      {values.map(value => (
+        <TouchableOpacity
+          key={format(value)}
+          style={[styles.chip, isSelected(value) && styles.selectedChip]}
+          onPress={() => onSelect(value)}
+        >
+          <Text style={styles.chipText}>{format(value)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginVertical: 4,
+  },
+  rowTitle: {
+    color: 'lightgray',
+    fontSize: 13,
+    width: 48,
+  },
+  chip: {
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    borderRadius: 14,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+  },
+  selectedChip: {
+    backgroundColor: '#007bff',
+  },
+  chipText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+});
+
+export default ChipRow;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Platform, StyleSheet, Text, View } from 'react-native';
+import { Code, CodeScannerFrame } from 'react-native-vision-camera';
+import {
+  Size,
+  getCodeKey,
+  getCodeTypeLabel,
+  mapCodeFrameToView,
+} from '../camera/codeScanning';
+
+type Props = {
+  codes: Code[];
+  scannerFrame: CodeScannerFrame | null;
+  viewSize: Size | null;
+};
+
+function CodeBoundingBoxes({
+  codes,
+  scannerFrame,
+  viewSize,
+}: Props): React.JSX.Element | null {
+  if (!scannerFrame || !viewSize) {
+    return null;
+  }
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {codes.map((code, index) => {
+        if (!code.frame) {
+          return null;
+        }
+        const box = mapCodeFrameToView(
+          code.frame,
+          scannerFrame,
+          viewSize,
+          Platform.OS === 'android',
+        );
+        return (
+          <View
+            key={`${getCodeKey(code)}-${index}`}
+            style={[
+              styles.box,
+              {
+                left: box.x,
+                top: box.y,
+                width: box.width,
+                height: box.height,
+              },
+            ]}
+          >
+            <Text style={styles.label} numberOfLines={1}>
+              {getCodeTypeLabel(code.type)}: {code.value ?? '?'}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#34C759',
+    borderRadius: 4,
+  },
+  label: {
+    position: 'absolute',
+    top: -20,
+    left: -2,
+    maxWidth: 220,
+    color: 'white',
+    fontSize: 12,
+    backgroundColor: '#34C759',
+    paddingHorizontal: 4,
+  },
+});
+
+export default CodeBoundingBoxes;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import {
+  CompositionSettings,
+  GridStyle,
+  SAFE_AREA_PERCENTAGES,
+} from '../camera/compositionGuides';
+import ChipRow from './ChipRow';
+
+type Props = {
+  settings: CompositionSettings;
+  onChange: (settings: CompositionSettings) => void;
+  // The crop frame only applies once a target resolution is selected.
+  cropFrameAvailable: boolean;
+};
+
+const GRID_LABELS: { [grid in GridStyle]: string } = {
+  off: 'Off',
+  thirds: 'Thirds',
+  golden: 'Golden',
+};
+
+const ON_OFF = [true, false];
+const formatOnOff = (value: boolean) => (value ? 'On' : 'Off');
+
+function CompositionMenu({
+  settings,
+  onChange,
+  cropFrameAvailable,
+}: Props): React.JSX.Element {
+  const toggleSafeArea = (percentage: number) =>
+    onChange({
+      ...settings,
+      safeAreas: settings.safeAreas.includes(percentage)
+        ? settings.safeAreas.filter(value => value !== percentage)
+        : [...settings.safeAreas, percentage],
+    });
+
+  return (
+    <View style={styles.container}>
+      {cropFrameAvailable && (
+        <ChipRow
+          title="Crop"
+          values={ON_OFF}
+          selected={settings.cropFrame}
+          format={formatOnOff}
+          onSelect={cropFrame => onChange({ ...settings, cropFrame })}
+        />
+      )}
+      <ChipRow
+        title="Grid"
+        values={Object.keys(GRID_LABELS) as GridStyle[]}
+        selected={settings.grid}
+        format={grid => GRID_LABELS[grid]}
+        onSelect={grid => onChange({ ...settings, grid })}
+      />
+      <ChipRow
+        title="Level"
+        values={ON_OFF}
+        selected={settings.level}
+        format={formatOnOff}
+        onSelect={level => onChange({ ...settings, level })}
+      />
+      <ChipRow
+        title="Safe"
+        values={SAFE_AREA_PERCENTAGES}
+        selected={settings.safeAreas}
+        format={percentage => `${percentage}%`}
+        onSelect={toggleSafeArea}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 220,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    borderRadius: 12,
+    padding: 10,
+    zIndex: 20,
+  },
+});
+
+export default CompositionMenu;
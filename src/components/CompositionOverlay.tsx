@@ -0,0 +1,191 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  CompositionSettings,
+  LEVEL_TOLERANCE_DEGREES,
+  Rect,
+  getCropFrameRect,
+  getGridFractions,
+  getLevelDeviation,
+  getMaskRects,
+  getSafeAreaRect,
+} from '../camera/compositionGuides';
+import { Resolution } from '../utils/resolution';
+
+type Props = {
+  settings: CompositionSettings;
+  viewSize: Resolution | null;
+  // Upright ratios of the streams; the preview shows the video one.
+  videoAspectRatio: number;
+  photoAspectRatio: number;
+  // Ratio `processPhoto` crops to, or null when photos are kept as captured.
+  targetAspectRatio: number | null;
+  tilt: number | null;
+};
+
+const LEVEL_WIDTH = 160;
+
+const toStyle = (rect: Rect) => ({
+  left: rect.x,
+  top: rect.y,
+  width: rect.width,
+  height: rect.height,
+});
+
+function CompositionOverlay({
+  settings,
+  viewSize,
+  videoAspectRatio,
+  photoAspectRatio,
+  targetAspectRatio,
+  tilt,
+}: Props): React.JSX.Element | null {
+  if (!viewSize) {
+    return null;
+  }
+  const view = { x: 0, y: 0, ...viewSize };
+  const showCropFrame = settings.cropFrame && targetAspectRatio != null;
+  // Grids and safe areas follow the part of the picture that will be kept.
+  const frame = showCropFrame
+    ? getCropFrameRect(
+        viewSize,
+        videoAspectRatio,
+        photoAspectRatio,
+        targetAspectRatio,
+      )
+    : view;
+  const gridFractions = getGridFractions(settings.grid);
+
+  const deviation = tilt != null ? getLevelDeviation(tilt) : null;
+  const isLevel =
+    deviation != null && Math.abs(deviation) <= LEVEL_TOLERANCE_DEGREES;
+  const levelTransform = [{ rotate: `${-(deviation ?? 0)}deg` }];
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {showCropFrame && (
+        <>
+          {getMaskRects(viewSize, frame).map((rect, index) => (
+            <View key={index} style={[styles.mask, toStyle(rect)]} />
+          ))}
+          <View style={[styles.cropFrame, toStyle(frame)]} />
+        </>
+      )}
+
+      {gridFractions.map(fraction => (
+        <React.Fragment key={fraction}>
+          <View
+            style={[
+              styles.gridLine,
+              toStyle({
+                x: frame.x + frame.width * fraction,
+                y: frame.y,
+                width: StyleSheet.hairlineWidth,
+                height: frame.height,
+              }),
+            ]}
+          />
+          <View
+            style={[
+              styles.gridLine,
+              toStyle({
+                x: frame.x,
+                y: frame.y + frame.height * fraction,
+                width: frame.width,
+                height: StyleSheet.hairlineWidth,
+              }),
+            ]}
+          />
+        </React.Fragment>
+      ))}
+
+      {settings.safeAreas.map(percentage => {
+        const rect = getSafeAreaRect(frame, percentage);
+        return (
+          <View key={percentage} style={[styles.safeArea, toStyle(rect)]}>
+            <Text style={styles.safeAreaLabel}>{percentage}%</Text>
+          </View>
+        );
+      })}
+
+      {settings.level && (
+        <View
+          style={[
+            styles.levelContainer,
+            { top: frame.y + frame.height / 2 - 10 },
+          ]}
+        >
+          {deviation == null ? (
+            <Text style={styles.levelText}>Hold the device upright</Text>
+          ) : (
+            <>
+              <View
+                style={[
+                  styles.levelLine,
+                  isLevel && styles.levelLineStraight,
+                  { transform: levelTransform },
+                ]}
+              />
+              <Text style={styles.levelText}>
+                {`${Math.abs(deviation).toFixed(1)}°`}
+              </Text>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  mask: {
+    position: 'absolute',
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  cropFrame: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.9)',
+  },
+  gridLine: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255,255,255,0.6)',
+  },
+  safeArea: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255,214,10,0.8)',
+  },
+  safeAreaLabel: {
+    position: 'absolute',
+    top: 2,
+    left: 4,
+    color: 'rgba(255,214,10,0.9)',
+    fontSize: 10,
+  },
+  levelContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  levelLine: {
+    width: LEVEL_WIDTH,
+    height: 2,
+    backgroundColor: 'white',
+  },
+  levelLineStraight: {
+    backgroundColor: '#34C759',
+  },
+  levelText: {
+    position: 'absolute',
+    top: 22,
+    color: 'white',
+    fontSize: 12,
+  },
+});
+
+export default CompositionOverlay;
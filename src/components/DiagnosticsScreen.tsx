@@ -0,0 +1,170 @@
+import React, { useCallback } from 'react';
+import {
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getErrorGuidance } from '../camera/cameraErrors';
+import { DiagnosticsEntry } from '../utils/diagnostics';
+
+type Props = {
+  entries: DiagnosticsEntry[];
+  onClose: () => void;
+  onClear: () => void;
+  onExport: () => void;
+};
+
+const LEVEL_COLORS = {
+  info: 'lightgray',
+  warning: '#FFCC00',
+  error: '#FF3B30',
+};
+
+function DiagnosticsScreen({
+  entries,
+  onClose,
+  onClear,
+  onExport,
+}: Props): React.JSX.Element {
+  const confirmClear = useCallback(() => {
+    Alert.alert('Clear Diagnostics Log', 'This removes every log entry.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: onClear },
+    ]);
+  }, [onClear]);
+
+  const renderEntry = useCallback(
+    ({ item }: { item: DiagnosticsEntry }) => (
+      <View style={styles.entryRow}>
+        <Text style={[styles.entryCode, { color: LEVEL_COLORS[item.level] }]}>
+          {item.code}
+        </Text>
+        {item.level === 'error' && (
+          <Text style={styles.entryTitle}>
+            {getErrorGuidance(item.code).title}
+          </Text>
+        )}
+        <Text style={styles.entryText} selectable>
+          {item.message}
+        </Text>
+        <Text style={styles.entryText}>
+          {new Date(item.timestamp).toLocaleString()}
+          {item.deviceId ? ` · ${item.deviceId}` : ''}
+        </Text>
+        {item.format && <Text style={styles.entryText}>{item.format}</Text>}
+      </View>
+    ),
+    [],
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.backButton}>
+          <Text style={styles.backButtonText}>{'< Back'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Diagnostics</Text>
+        {entries.length > 0 && (
+          <>
+            <TouchableOpacity onPress={onExport}>
+              <Text style={styles.actionText}>Export</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={confirmClear}>
+              <Text style={[styles.actionText, styles.clearText]}>Clear</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+      <Text style={styles.description}>
+        Camera errors and session events, newest first. Attach an export when
+        reporting a problem.
+      </Text>
+      <FlatList
+        style={styles.list}
+        data={entries}
+        keyExtractor={(item, index) => `${item.timestamp}-${index}`}
+        renderItem={renderEntry}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Nothing logged yet.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'black',
+    paddingTop: 50,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 10,
+    gap: 15,
+  },
+  backButton: {
+    padding: 5,
+  },
+  backButtonText: {
+    color: '#007bff',
+    fontSize: 18,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  description: {
+    color: 'lightgray',
+    fontSize: 14,
+    paddingHorizontal: 15,
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 15,
+  },
+  emptyText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 15,
+  },
+  entryRow: {
+    backgroundColor: '#1c1c1e',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  entryCode: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  entryTitle: {
+    color: 'white',
+    fontSize: 14,
+    marginTop: 2,
+  },
+  entryText: {
+    color: 'lightgray',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actionText: {
+    color: '#007bff',
+    fontSize: 15,
+  },
+  clearText: {
+    color: '#FF3B30',
+  },
+});
+
+export default DiagnosticsScreen;
@@ -0,0 +1,281 @@
+import React, {
+  RefObject,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import {
+  GestureResponderEvent,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Camera, CameraDevice, Point } from 'react-native-vision-camera';
+
+type Props = {
+  camera: RefObject<Camera | null>;
+  device: CameraDevice;
+  exposure: number;
+  onExposureChange: (exposure: number) => void;
+  locked: boolean;
+  onLockedChange: (locked: boolean) => void;
+};
+
+const RETICLE_SIZE = 70;
+const RETICLE_TIMEOUT_MS = 1500;
+const FOCUS_UNSUPPORTED_MESSAGE =
+  'This camera has a fixed focus, so tap-to-focus, exposure compensation and AE/AF lock are not available.';
+
+const formatExposure = (exposure: number) =>
+  `${exposure >= 0 ? '+' : ''}${exposure.toFixed(1)} EV`;
+
+// VisionCamera has no explicit AE/AF lock, so a lock focuses and meters once at
+// the pressed point, then ignores taps (which would re-meter) and freezes the
+// exposure compensation until it is released.
+function FocusExposureControls({
+  camera,
+  device,
+  exposure,
+  onExposureChange,
+  locked,
+  onLockedChange,
+}: Props): React.JSX.Element {
+  const [reticle, setReticle] = useState<Point | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const hideTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (hideTimeout.current) {
+        clearTimeout(hideTimeout.current);
+      }
+    },
+    [],
+  );
+
+  const flash = useCallback(
+    (point: Point | null, message: string | null, keep = false) => {
+      if (hideTimeout.current) {
+        clearTimeout(hideTimeout.current);
+      }
+      setReticle(point);
+      setNotice(message);
+      if (!keep) {
+        hideTimeout.current = setTimeout(() => {
+          setReticle(null);
+          setNotice(null);
+        }, RETICLE_TIMEOUT_MS);
+      }
+    },
+    [],
+  );
+
+  const focusAt = useCallback(
+    async (point: Point) => {
+      try {
+        await camera.current?.focus(point);
+      } catch (e: any) {
+        // A newer focus request cancels the previous one; that is expected.
+        if (e?.code !== 'capture/focus-canceled') {
+          console.warn('Failed to focus', e);
+        }
+      }
+    },
+    [camera],
+  );
+
+  const eventPoint = (event: GestureResponderEvent): Point => ({
+    x: event.nativeEvent.locationX,
+    y: event.nativeEvent.locationY,
+  });
+
+  const onPress = useCallback(
+    (event: GestureResponderEvent) => {
+      if (!device.supportsFocus) {
+        flash(null, FOCUS_UNSUPPORTED_MESSAGE);
+        return;
+      }
+      if (locked) {
+        flash(null, 'AE/AF is locked. Long-press to unlock.');
+        return;
+      }
+      const point = eventPoint(event);
+      flash(point, null);
+      focusAt(point);
+    },
+    [device.supportsFocus, locked, flash, focusAt],
+  );
+
+  const onLongPress = useCallback(
+    (event: GestureResponderEvent) => {
+      if (!device.supportsFocus) {
+        flash(null, FOCUS_UNSUPPORTED_MESSAGE);
+        return;
+      }
+      if (locked) {
+        onLockedChange(false);
+        flash(null, 'AE/AF unlocked');
+        return;
+      }
+      const point = eventPoint(event);
+      onLockedChange(true);
+      flash(point, null, true);
+      focusAt(point);
+    },
+    [device.supportsFocus, locked, onLockedChange, flash, focusAt],
+  );
+
+  const canAdjustExposure =
+    device.supportsFocus && device.maxExposure > device.minExposure;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+      <Pressable
+        style={StyleSheet.absoluteFill}
+        onPress={onPress}
+        onLongPress={onLongPress}
+      />
+
+      {reticle && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.reticle,
+            locked && styles.lockedReticle,
+            {
+              left: reticle.x - RETICLE_SIZE / 2,
+              top: reticle.y - RETICLE_SIZE / 2,
+            },
+          ]}
+        />
+      )}
+
+      {locked && (
+        <View style={styles.lockBadge} pointerEvents="none">
+          <Text style={styles.lockBadgeText}>AE/AF LOCK</Text>
+        </View>
+      )}
+
+      {notice && (
+        <View style={styles.notice} pointerEvents="none">
+          <Text style={styles.noticeText}>{notice}</Text>
+        </View>
+      )}
+
+      {!device.supportsFocus && (
+        <View style={styles.exposureControl} pointerEvents="none">
+          <Text style={styles.unsupportedText}>
+            Fixed-focus camera: focus and exposure controls are unavailable.
+          </Text>
+        </View>
+      )}
+
+      {canAdjustExposure && (
+        <View style={styles.exposureControl}>
+          <Text style={styles.exposureText}>{formatExposure(exposure)}</Text>
+          <Slider
+            style={styles.exposureSlider}
+            minimumValue={device.minExposure}
+            maximumValue={device.maxExposure}
+            step={0.1}
+            value={exposure}
+            disabled={locked}
+            onValueChange={onExposureChange}
+            minimumTrackTintColor="#FFCC00"
+            maximumTrackTintColor="rgba(255,255,255,0.4)"
+            thumbTintColor="#FFCC00"
+          />
+          {!locked && (
+            <Text
+              style={styles.exposureReset}
+              onPress={() => onExposureChange(0)}
+            >
+              Reset
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  reticle: {
+    position: 'absolute',
+    width: RETICLE_SIZE,
+    height: RETICLE_SIZE,
+    borderWidth: 2,
+    borderColor: '#FFCC00',
+    borderRadius: 4,
+  },
+  lockedReticle: {
+    borderWidth: 3,
+  },
+  lockBadge: {
+    position: 'absolute',
+    top: 90,
+    alignSelf: 'center',
+    backgroundColor: '#FFCC00',
+    borderRadius: 4,
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+  },
+  lockBadgeText: {
+    color: 'black',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  notice: {
+    position: 'absolute',
+    top: 130,
+    left: 40,
+    right: 40,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    borderRadius: 8,
+    padding: 10,
+  },
+  noticeText: {
+    color: 'white',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  exposureControl: {
+    position: 'absolute',
+    bottom: 220,
+    left: 30,
+    right: 30,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  exposureText: {
+    color: '#FFCC00',
+    fontSize: 13,
+    fontWeight: 'bold',
+    width: 64,
+  },
+  exposureSlider: {
+    flex: 1,
+    height: 32,
+  },
+  unsupportedText: {
+    color: 'lightgray',
+    fontSize: 12,
+    flex: 1,
+    textAlign: 'center',
+    paddingVertical: 6,
+  },
+  exposureReset: {
+    color: 'white',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+});
+
+export default FocusExposureControls;
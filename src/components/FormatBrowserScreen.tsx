@@ -0,0 +1,260 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  COMPARISON_SLOTS,
+  ComparisonSlot,
+  FILTER_LABELS,
+  FORMAT_FILTERS,
+  FORMAT_SORT_KEYS,
+  FRAME_PROCESSOR_PIXEL_FORMATS,
+  FormatFilter,
+  FormatSortKey,
+  PinnedFormats,
+  SORT_KEY_LABELS,
+  SortDirection,
+  browseFormats,
+  describeFormatRow,
+  toggleFilter,
+} from '../camera/formatBrowser';
+import { CameraFormat } from '../camera/types';
+import ChipRow from './ChipRow';
+
+type Props = {
+  deviceLabel: string;
+  formats: CameraFormat[];
+  activeFormat: CameraFormat;
+  pinned: PinnedFormats;
+  // Video mode picks its format from the resolution and frame rate instead.
+  canUseFormat: boolean;
+  onUse: (format: CameraFormat) => void;
+  onPin: (slot: ComparisonSlot, format: CameraFormat | null) => void;
+  onCompare: () => void;
+  onClose: () => void;
+};
+
+function FormatBrowserScreen({
+  deviceLabel,
+  formats,
+  activeFormat,
+  pinned,
+  canUseFormat,
+  onUse,
+  onPin,
+  onCompare,
+  onClose,
+}: Props): React.JSX.Element {
+  const [sortKey, setSortKey] = useState<FormatSortKey>('photo');
+  const [direction, setDirection] = useState<SortDirection>('desc');
+  const [filters, setFilters] = useState<FormatFilter[]>([]);
+
+  const shownFormats = useMemo(
+    () => browseFormats(formats, filters, sortKey, direction),
+    [formats, filters, sortKey, direction],
+  );
+
+  // Picking the current sort column again flips the direction.
+  const selectSortKey = useCallback(
+    (key: FormatSortKey) => {
+      if (key === sortKey) {
+        setDirection(current => (current === 'asc' ? 'desc' : 'asc'));
+      } else {
+        setSortKey(key);
+        setDirection('desc');
+      }
+    },
+    [sortKey],
+  );
+
+  const renderFormat = useCallback(
+    ({ item }: { item: CameraFormat }) => {
+      const row = describeFormatRow(item);
+      const isActive = item === activeFormat;
+      return (
+        <View style={[styles.formatRow, isActive && styles.activeFormatRow]}>
+          <Text style={styles.formatTitle}>
+            {row.photo}
+            {isActive ? ' · active' : ''}
+          </Text>
+          <Text style={styles.formatText}>
+            Video {row.video} · {row.fps} fps · FOV {row.fov}
+          </Text>
+          <Text style={styles.formatText}>
+            HDR {row.hdr} · Stabilization {row.stabilization} · Depth{' '}
+            {row.depth}
+          </Text>
+          <View style={styles.actions}>
+            {canUseFormat && !isActive && (
+              <TouchableOpacity onPress={() => onUse(item)}>
+                <Text style={styles.actionText}>Pin as active</Text>
+              </TouchableOpacity>
+            )}
+            {COMPARISON_SLOTS.map(slot => (
+              <TouchableOpacity
+                key={slot}
+                onPress={() => onPin(slot, pinned[slot] === item ? null : item)}
+              >
+                <Text
+                  style={[
+                    styles.actionText,
+                    pinned[slot] === item && styles.pinnedText,
+                  ]}
+                >
+                  {pinned[slot] === item ? `Unpin ${slot}` : `Pin ${slot}`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      );
+    },
+    [activeFormat, canUseFormat, pinned, onUse, onPin],
+  );
+
+  const canCompare = pinned.A != null && pinned.B != null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.backButton}>
+          <Text style={styles.backButtonText}>{'< Back'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Formats</Text>
+        <TouchableOpacity onPress={onCompare} disabled={!canCompare}>
+          <Text style={[styles.actionText, !canCompare && styles.disabledText]}>
+            Compare A/B
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.description}>
+        {shownFormats.length} of {formats.length} formats of {deviceLabel}. Pin
+        two formats as A and B to photograph the same scene with both. Frame
+        processors get {FRAME_PROCESSOR_PIXEL_FORMATS.join(' or ')} pixels on
+        every format.
+      </Text>
+      <View style={styles.controls}>
+        <ChipRow
+          title="Sort"
+          values={FORMAT_SORT_KEYS}
+          selected={sortKey}
+          format={key =>
+            key === sortKey
+              ? `${SORT_KEY_LABELS[key]} ${direction === 'asc' ? '↑' : '↓'}`
+              : SORT_KEY_LABELS[key]
+          }
+          onSelect={selectSortKey}
+        />
+        <ChipRow
+          title="Only"
+          values={FORMAT_FILTERS}
+          selected={filters}
+          format={filter => FILTER_LABELS[filter]}
+          onSelect={filter =>
+            setFilters(current => toggleFilter(current, filter))
+          }
+        />
+      </View>
+      <FlatList
+        style={styles.list}
+        data={shownFormats}
+        keyExtractor={item => `${formats.indexOf(item)}`}
+        renderItem={renderFormat}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No format matches the filters.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'black',
+    paddingTop: 50,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  backButton: {
+    marginRight: 10,
+    padding: 5,
+  },
+  backButtonText: {
+    color: '#007bff',
+    fontSize: 18,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  description: {
+    color: 'lightgray',
+    fontSize: 14,
+    paddingHorizontal: 15,
+    marginBottom: 10,
+    lineHeight: 20,
+  },
+  controls: {
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 15,
+  },
+  emptyText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 15,
+  },
+  formatRow: {
+    backgroundColor: '#1c1c1e',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  activeFormatRow: {
+    borderWidth: 1,
+    borderColor: '#007bff',
+  },
+  formatTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  formatText: {
+    color: 'lightgray',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 20,
+  },
+  actionText: {
+    color: '#007bff',
+    fontSize: 15,
+  },
+  pinnedText: {
+    color: '#FF9500',
+    fontWeight: 'bold',
+  },
+  disabledText: {
+    color: 'gray',
+  },
+});
+
+export default FormatBrowserScreen;
@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ComparisonShot, describeFormatRow } from '../camera/formatBrowser';
+import { formatFileSize } from '../utils/formatting';
+
+type Props = {
+  shots: ComparisonShot[];
+  onClose: () => void;
+};
+
+const toFileUri = (path: string) =>
+  path.startsWith('file://') ? path : `file://${path}`;
+
+function FormatComparisonScreen({ shots, onClose }: Props): React.JSX.Element {
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.backButton}>
+          <Text style={styles.backButtonText}>{'< Camera'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>A/B Comparison</Text>
+      </View>
+      <ScrollView contentContainerStyle={styles.columns}>
+        {shots.map(shot => {
+          const row = describeFormatRow(shot.format);
+          return (
+            <View key={shot.slot} style={styles.column}>
+              <Text style={styles.slotTitle}>{shot.slot}</Text>
+              {shot.path ? (
+                <Image
+                  source={{ uri: toFileUri(shot.path) }}
+                  style={styles.photo}
+                  resizeMode="contain"
+                />
+              ) : (
+                <Text style={styles.errorText}>
+                  {shot.error ?? 'No photo was taken.'}
+                </Text>
+              )}
+              <Text style={styles.detailText}>Format {row.photo}</Text>
+              <Text style={styles.detailText}>
+                Video {row.video} · {row.fps} fps
+              </Text>
+              <Text style={styles.detailText}>
+                FOV {row.fov} · HDR {row.hdr}
+              </Text>
+              {shot.resolution && (
+                <Text style={styles.detailText}>Photo {shot.resolution}</Text>
+              )}
+              {shot.size != null && (
+                <Text style={styles.detailText}>
+                  {formatFileSize(shot.size)}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'black',
+    paddingTop: 50,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  backButton: {
+    marginRight: 10,
+    padding: 5,
+  },
+  backButtonText: {
+    color: '#007bff',
+    fontSize: 18,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  columns: {
+    flexDirection: 'row',
+    paddingHorizontal: 10,
+    gap: 10,
+  },
+  column: {
+    flex: 1,
+  },
+  slotTitle: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  photo: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    backgroundColor: '#1c1c1e',
+    marginBottom: 6,
+  },
+  detailText: {
+    color: 'lightgray',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginBottom: 6,
+  },
+});
+
+export default FormatComparisonScreen;
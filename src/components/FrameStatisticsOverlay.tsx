@@ -0,0 +1,101 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { FrameAnalyser } from '../processing/frameAnalysers';
+import { FrameStatistics } from '../hooks/useFrameStatistics';
+
+type Props = {
+  statistics: FrameStatistics | null;
+  analysers: FrameAnalyser[];
+  maxFps: number | undefined;
+};
+
+const HISTOGRAM_HEIGHT = 40;
+
+function FrameStatisticsOverlay({
+  statistics,
+  analysers,
+  maxFps,
+}: Props): React.JSX.Element {
+  if (!statistics) {
+    return (
+      <View style={styles.container} pointerEvents="none">
+        <Text style={styles.text}>Waiting for frames...</Text>
+      </View>
+    );
+  }
+
+  const fps = `${statistics.fps.toFixed(1)} fps`;
+  const fpsText = maxFps ? `${fps} / ${maxFps} max` : fps;
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <Text style={styles.text}>{fpsText}</Text>
+      {analysers.map(analyser => {
+        const result = statistics.results[analyser.id];
+        if (!result) {
+          return null;
+        }
+        const peak = result.histogram ? Math.max(...result.histogram) : 0;
+        const barScale = peak > 0 ? HISTOGRAM_HEIGHT / peak : 0;
+        return (
+          <View key={analyser.id} style={styles.analyser}>
+            <Text style={styles.text}>
+              {analyser.label}
+              {result.summary ? `: ${result.summary}` : ''}
+            </Text>
+            {result.histogram && (
+              <View style={styles.histogram}>
+                {result.histogram.map((value, index) => (
+                  <View
+                    key={index}
+                    style={[styles.histogramBar, { height: value * barScale }]}
+                  />
+                ))}
+              </View>
+            )}
+            {result.warning && (
+              <Text style={styles.warning}>{result.warning}</Text>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 130,
+    right: 80,
+    width: 160,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 8,
+    padding: 8,
+  },
+  text: {
+    color: 'white',
+    fontSize: 12,
+  },
+  analyser: {
+    marginTop: 6,
+  },
+  histogram: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: HISTOGRAM_HEIGHT,
+    marginTop: 4,
+  },
+  histogramBar: {
+    flex: 1,
+    backgroundColor: 'rgba(255,255,255,0.8)',
+  },
+  warning: {
+    color: '#FF9500',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+});
+
+export default FrameStatisticsOverlay;
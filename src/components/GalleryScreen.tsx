@@ -0,0 +1,246 @@
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Image,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { CaptureRecord } from '../storage/captureHistory';
+import { describeOutputFormat } from '../processing/outputSettings';
+import { formatDuration, formatFileSize } from '../utils/formatting';
+import PhotoDetailsScreen from './PhotoDetailsScreen';
+
+type Props = {
+  captures: CaptureRecord[];
+  onClose: () => void;
+  onDelete: (id: string) => void;
+};
+
+const toFileUri = (path: string) =>
+  path.startsWith('file://') ? path : `file://${path}`;
+
+function GalleryScreen({
+  captures,
+  onClose,
+  onDelete,
+}: Props): React.JSX.Element {
+  const [detailsCapture, setDetailsCapture] = useState<CaptureRecord | null>(
+    null,
+  );
+
+  const shareCapture = useCallback(async (capture: CaptureRecord) => {
+    try {
+      await Share.share({
+        url: toFileUri(capture.path),
+        message: toFileUri(capture.path),
+        title: `${capture.cameraName} ${capture.actualResolution}`,
+      });
+    } catch (e: any) {
+      Alert.alert('Error', `Failed to share capture: ${e.message}`);
+    }
+  }, []);
+
+  const confirmDelete = useCallback(
+    (capture: CaptureRecord) => {
+      Alert.alert('Delete Capture', 'This removes the file from the app.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => onDelete(capture.id),
+        },
+      ]);
+    },
+    [onDelete],
+  );
+
+  const renderCapture = useCallback(
+    ({ item }: { item: CaptureRecord }) => (
+      <View style={styles.captureRow}>
+        {item.kind === 'photo' ? (
+          <Image
+            source={{ uri: toFileUri(item.thumbnailPath ?? item.path) }}
+            style={styles.thumbnail}
+          />
+        ) : (
+          <View style={[styles.thumbnail, styles.videoThumbnail]}>
+            <Text style={styles.videoThumbnailText}>▶</Text>
+          </View>
+        )}
+        <View style={styles.captureDetails}>
+          <Text style={styles.captureTitle}>{item.cameraName}</Text>
+          <Text style={styles.captureText}>
+            Requested: {item.requestedResolution ?? 'Default'} · Actual:{' '}
+            {item.actualResolution}
+          </Text>
+          <Text style={styles.captureText}>
+            Zoom: {item.zoom.toFixed(2)}x
+            {item.durationSeconds != null
+              ? ` · ${formatDuration(item.durationSeconds)}`
+              : ''}
+            {item.fileSize != null ? ` · ${formatFileSize(item.fileSize)}` : ''}
+            {item.container
+              ? ` · ${describeOutputFormat(item.container, item.quality)}`
+              : ''}
+          </Text>
+          {item.groupId && (
+            <Text style={styles.captureText}>
+              Lens set · {item.lensLabel}
+              {item.fieldOfView != null
+                ? ` · FOV ${Math.round(item.fieldOfView)}°`
+                : ''}
+            </Text>
+          )}
+          <Text style={styles.captureText}>
+            {new Date(item.timestamp).toLocaleString()}
+          </Text>
+          <View style={styles.actions}>
+            {item.kind === 'photo' && (
+              <TouchableOpacity onPress={() => setDetailsCapture(item)}>
+                <Text style={styles.actionText}>Details</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => shareCapture(item)}>
+              <Text style={styles.actionText}>Share</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => confirmDelete(item)}>
+              <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    ),
+    [shareCapture, confirmDelete],
+  );
+
+  if (detailsCapture) {
+    return (
+      <PhotoDetailsScreen
+        capture={detailsCapture}
+        onClose={() => setDetailsCapture(null)}
+      />
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.backButton}>
+          <Text style={styles.backButtonText}>{'< Camera'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Gallery</Text>
+      </View>
+      <Text style={styles.description}>
+        Every photo and video taken in this app, newest first. Captures are kept
+        until you delete them.
+      </Text>
+      <FlatList
+        style={styles.list}
+        data={captures}
+        keyExtractor={item => item.id}
+        renderItem={renderCapture}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No captures yet.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'black',
+    paddingTop: 50,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  backButton: {
+    marginRight: 10,
+    padding: 5,
+  },
+  backButtonText: {
+    color: '#007bff',
+    fontSize: 18,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  description: {
+    color: 'lightgray',
+    fontSize: 14,
+    paddingHorizontal: 15,
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 15,
+  },
+  emptyText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 15,
+  },
+  captureRow: {
+    flexDirection: 'row',
+    backgroundColor: '#1c1c1e',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  thumbnail: {
+    width: 80,
+    height: 80,
+    borderRadius: 4,
+    backgroundColor: '#333',
+  },
+  videoThumbnail: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  videoThumbnailText: {
+    color: 'white',
+    fontSize: 28,
+  },
+  captureDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  captureTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  captureText: {
+    color: 'lightgray',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 20,
+  },
+  actionText: {
+    color: '#007bff',
+    fontSize: 15,
+  },
+  deleteText: {
+    color: '#FF3B30',
+  },
+});
+
+export default GalleryScreen;
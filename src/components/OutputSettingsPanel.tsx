@@ -0,0 +1,93 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import {
+  ContainerSupport,
+  MAX_FILE_SIZES,
+  OUTPUT_CONTAINERS,
+  OUTPUT_QUALITIES,
+  OutputProfile,
+  OutputSettings,
+  getContainerLabel,
+  supportsMaxFileSize,
+  usesQuality,
+} from '../processing/outputSettings';
+import { formatFileSize } from '../utils/formatting';
+import ChipRow from './ChipRow';
+
+type Props = {
+  profiles: OutputProfile[];
+  activeProfile: OutputProfile;
+  support: ContainerSupport;
+  onSelectProfile: (id: string) => void;
+  onChange: (settings: OutputSettings) => void;
+};
+
+function OutputSettingsPanel({
+  profiles,
+  activeProfile,
+  support,
+  onSelectProfile,
+  onChange,
+}: Props): React.JSX.Element {
+  const { settings } = activeProfile;
+  return (
+    <View style={styles.container}>
+      <ChipRow
+        title="Profile"
+        values={profiles.map(profile => profile.id)}
+        selected={activeProfile.id}
+        format={id => profiles.find(profile => profile.id === id)?.name ?? id}
+        onSelect={onSelectProfile}
+      />
+      <ChipRow
+        title="Format"
+        values={OUTPUT_CONTAINERS.filter(container => support[container])}
+        selected={settings.container}
+        format={getContainerLabel}
+        onSelect={container => onChange({ ...settings, container })}
+      />
+      {usesQuality(settings.container) && (
+        <ChipRow
+          title="Quality"
+          values={OUTPUT_QUALITIES}
+          selected={settings.quality}
+          format={quality =>
+            quality == null ? 'Camera' : `${Math.round(quality * 100)}%`
+          }
+          onSelect={quality => onChange({ ...settings, quality })}
+        />
+      )}
+      {supportsMaxFileSize(settings.container) && (
+        <ChipRow
+          title="Max"
+          values={MAX_FILE_SIZES}
+          selected={settings.maxFileSize}
+          format={size => (size == null ? 'Any' : formatFileSize(size))}
+          onSelect={maxFileSize => onChange({ ...settings, maxFileSize })}
+        />
+      )}
+      <ChipRow
+        title="Thumb"
+        values={[false, true]}
+        selected={settings.thumbnail}
+        format={thumbnail => (thumbnail ? 'On' : 'Off')}
+        onSelect={thumbnail => onChange({ ...settings, thumbnail })}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 220,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    borderRadius: 12,
+    padding: 10,
+    zIndex: 20,
+  },
+});
+
+export default OutputSettingsPanel;
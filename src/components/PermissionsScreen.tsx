@@ -0,0 +1,200 @@
+import React from 'react';
+import {
+  Linking,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  PERMISSION_INFO,
+  PERMISSION_KINDS,
+  PermissionKind,
+  PermissionStatuses,
+  describePermissionStatus,
+  getPermissionAction,
+  hasRequiredPermissions,
+} from '../camera/permissions';
+
+type Props = {
+  statuses: PermissionStatuses;
+  // Kinds a request left denied; only these are sent to Settings.
+  refused: PermissionKind[];
+  onRequest: (kind: PermissionKind) => void;
+  onContinue: () => void;
+};
+
+const openSettings = () =>
+  Linking.openSettings().catch(e =>
+    console.error('Failed to open system settings', e),
+  );
+
+function PermissionsScreen({
+  statuses,
+  refused,
+  onRequest,
+  onContinue,
+}: Props): React.JSX.Element {
+  const canContinue = hasRequiredPermissions(statuses);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Permissions</Text>
+      <Text style={styles.description}>
+        This app needs the camera to work. Microphone and location are optional
+        and can be changed here or in the system settings at any time.
+      </Text>
+      <ScrollView style={styles.list}>
+        {PERMISSION_KINDS.map(kind => {
+          const info = PERMISSION_INFO[kind];
+          const status = statuses[kind];
+          const action = getPermissionAction(status, refused.includes(kind));
+          return (
+            <View key={kind} style={styles.permissionRow}>
+              <View style={styles.permissionHeader}>
+                <Text style={styles.permissionTitle}>
+                  {info.title}
+                  {info.required ? ' (required)' : ''}
+                </Text>
+                <Text
+                  style={[
+                    styles.status,
+                    status === 'granted' && styles.statusGranted,
+                  ]}
+                >
+                  {describePermissionStatus(status)}
+                </Text>
+              </View>
+              <Text style={styles.reason}>{info.reason}</Text>
+              {action === 'request' && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => onRequest(kind)}
+                >
+                  <Text style={styles.actionButtonText}>Allow</Text>
+                </TouchableOpacity>
+              )}
+              {action === 'open-settings' && (
+                <>
+                  <Text style={styles.hint}>
+                    The system did not ask again. Enable it in Settings.
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={openSettings}
+                  >
+                    <Text style={styles.actionButtonText}>Open Settings</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              {action === 'blocked' && (
+                <Text style={styles.hint}>
+                  Access is blocked by parental controls or a device management
+                  profile and cannot be changed from this app.
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+      <TouchableOpacity
+        style={[styles.continueButton, !canContinue && styles.disabledButton]}
+        onPress={onContinue}
+        disabled={!canContinue}
+      >
+        <Text style={styles.continueButtonText}>
+          {canContinue ? 'Continue' : 'Camera access is required'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'black',
+    paddingTop: 60,
+    paddingHorizontal: 15,
+    paddingBottom: 40,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  description: {
+    color: 'lightgray',
+    fontSize: 14,
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  list: {
+    flex: 1,
+  },
+  permissionRow: {
+    backgroundColor: '#1c1c1e',
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  permissionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  permissionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  status: {
+    color: '#FF9500',
+    fontSize: 13,
+  },
+  statusGranted: {
+    color: '#34C759',
+  },
+  reason: {
+    color: 'lightgray',
+    fontSize: 14,
+    marginTop: 6,
+  },
+  hint: {
+    color: '#FF9500',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  actionButton: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007bff',
+  },
+  actionButtonText: {
+    color: '#007bff',
+    fontSize: 15,
+  },
+  continueButton: {
+    backgroundColor: '#007bff',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  disabledButton: {
+    backgroundColor: '#333',
+  },
+  continueButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default PermissionsScreen;
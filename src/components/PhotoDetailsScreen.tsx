@@ -0,0 +1,161 @@
+import React from 'react';
+import {
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  MetadataRow,
+  describeMetadataStamp,
+  describePhotoExif,
+} from '../processing/photoMetadata';
+import { CaptureRecord } from '../storage/captureHistory';
+
+type Props = {
+  capture: CaptureRecord;
+  onClose: () => void;
+};
+
+const toFileUri = (path: string) =>
+  path.startsWith('file://') ? path : `file://${path}`;
+
+function MetadataSection({
+  title,
+  rows,
+  emptyText,
+}: {
+  title: string;
+  rows: MetadataRow[];
+  emptyText: string;
+}): React.JSX.Element {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {rows.length === 0 ? (
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      ) : (
+        rows.map(row => (
+          <View key={row.label} style={styles.row}>
+            <Text style={styles.rowLabel}>{row.label}</Text>
+            <Text style={styles.rowValue}>{row.value}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+function PhotoDetailsScreen({ capture, onClose }: Props): React.JSX.Element {
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.backButton}>
+          <Text style={styles.backButtonText}>{'< Gallery'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Photo Details</Text>
+      </View>
+      <ScrollView style={styles.content}>
+        <Image
+          source={{ uri: toFileUri(capture.path) }}
+          style={styles.preview}
+          resizeMode="contain"
+        />
+        <MetadataSection
+          title="File"
+          rows={[
+            { label: 'Resolution', value: capture.actualResolution },
+            {
+              label: 'Saved',
+              value: new Date(capture.timestamp).toLocaleString(),
+            },
+            { label: 'Path', value: capture.path },
+          ]}
+          emptyText=""
+        />
+        <MetadataSection
+          title="EXIF"
+          rows={capture.exif ? describePhotoExif(capture.exif) : []}
+          emptyText="The camera did not report any EXIF for this photo."
+        />
+        <MetadataSection
+          title="Stamped by this app"
+          rows={capture.stamp ? describeMetadataStamp(capture.stamp) : []}
+          emptyText="No metadata was written into this file."
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'black',
+    paddingTop: 50,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  backButton: {
+    marginRight: 10,
+    padding: 5,
+  },
+  backButtonText: {
+    color: '#007bff',
+    fontSize: 18,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 15,
+  },
+  preview: {
+    width: '100%',
+    height: 240,
+    backgroundColor: '#1c1c1e',
+    borderRadius: 8,
+  },
+  section: {
+    backgroundColor: '#1c1c1e',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 15,
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 3,
+  },
+  rowLabel: {
+    color: 'lightgray',
+    fontSize: 13,
+    width: 110,
+  },
+  rowValue: {
+    color: 'white',
+    fontSize: 13,
+    flex: 1,
+  },
+  emptyText: {
+    color: 'lightgray',
+    fontSize: 13,
+  },
+});
+
+export default PhotoDetailsScreen;
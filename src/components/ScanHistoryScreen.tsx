@@ -0,0 +1,178 @@
+import React, { useCallback } from 'react';
+import {
+  Alert,
+  FlatList,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+import { getCodeTypeLabel } from '../camera/codeScanning';
+import { ScanRecord } from '../storage/scanHistory';
+
+type Props = {
+  scans: ScanRecord[];
+  onClose: () => void;
+  onClear: () => void;
+};
+
+function ScanHistoryScreen({
+  scans,
+  onClose,
+  onClear,
+}: Props): React.JSX.Element {
+  const copyScan = useCallback((scan: ScanRecord) => {
+    Clipboard.setString(scan.value);
+    Alert.alert('Copied', scan.value);
+  }, []);
+
+  const shareScan = useCallback(async (scan: ScanRecord) => {
+    try {
+      await Share.share({ message: scan.value });
+    } catch (e: any) {
+      Alert.alert('Error', `Failed to share scan: ${e.message}`);
+    }
+  }, []);
+
+  const confirmClear = useCallback(() => {
+    Alert.alert(
+      'Clear Scan History',
+      'This removes every scan from the list.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear', style: 'destructive', onPress: onClear },
+      ],
+    );
+  }, [onClear]);
+
+  const renderScan = useCallback(
+    ({ item }: { item: ScanRecord }) => (
+      <View style={styles.scanRow}>
+        <Text style={styles.scanValue} selectable>
+          {item.value}
+        </Text>
+        <Text style={styles.scanText}>
+          {getCodeTypeLabel(item.type)} · {item.cameraName}
+        </Text>
+        <Text style={styles.scanText}>
+          {new Date(item.timestamp).toLocaleString()}
+        </Text>
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={() => copyScan(item)}>
+            <Text style={styles.actionText}>Copy</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => shareScan(item)}>
+            <Text style={styles.actionText}>Share</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    ),
+    [copyScan, shareScan],
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.backButton}>
+          <Text style={styles.backButtonText}>{'< Camera'}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Scan History</Text>
+        {scans.length > 0 && (
+          <TouchableOpacity onPress={confirmClear}>
+            <Text style={[styles.actionText, styles.clearText]}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.description}>
+        Every code read in scan mode, newest first. A code held in view is only
+        recorded once.
+      </Text>
+      <FlatList
+        style={styles.list}
+        data={scans}
+        keyExtractor={item => item.id}
+        renderItem={renderScan}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No codes scanned yet.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'black',
+    paddingTop: 50,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    marginBottom: 10,
+  },
+  backButton: {
+    marginRight: 10,
+    padding: 5,
+  },
+  backButtonText: {
+    color: '#007bff',
+    fontSize: 18,
+  },
+  title: {
+    color: 'white',
+    fontSize: 24,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  description: {
+    color: 'lightgray',
+    fontSize: 14,
+    paddingHorizontal: 15,
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 15,
+  },
+  emptyText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 15,
+  },
+  scanRow: {
+    backgroundColor: '#1c1c1e',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  scanValue: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  scanText: {
+    color: 'lightgray',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 20,
+  },
+  actionText: {
+    color: '#007bff',
+    fontSize: 15,
+  },
+  clearText: {
+    color: '#FF3B30',
+  },
+});
+
+export default ScanHistoryScreen;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { SessionTiming, summarizeRestarts } from '../camera/sessionTiming';
+
+type Props = {
+  timing: SessionTiming;
+  isActive: boolean;
+};
+
+const formatMs = (ms: number | null) =>
+  ms != null ? `${Math.round(ms)} ms` : '-';
+
+function SessionTimingOverlay({ timing, isActive }: Props): React.JSX.Element {
+  const summary = summarizeRestarts(timing.samples);
+  const lastText = timing.pending
+    ? `Restarting (${timing.pending.reason})...`
+    : summary.last
+    ? `Restart: ${formatMs(summary.last.durationMs)} (${summary.last.reason})`
+    : 'No restarts yet';
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <Text style={styles.text}>{lastText}</Text>
+      <Text style={styles.text}>
+        avg {formatMs(summary.averageMs)} · max {formatMs(summary.maxMs)} · n=
+        {summary.count}
+      </Text>
+      <Text style={styles.text}>Session {isActive ? 'active' : 'paused'}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 50,
+    right: 80,
+    width: 160,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 8,
+    padding: 6,
+  },
+  text: {
+    color: 'white',
+    fontSize: 12,
+  },
+});
+
+export default SessionTimingOverlay;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import {
+  BURST_COUNTS,
+  INTERVAL_COUNTS,
+  INTERVAL_SECONDS,
+  ShootingMode,
+  ShootingSettings,
+  TIMER_SECONDS,
+} from '../camera/shootingModes';
+import ChipRow from './ChipRow';
+
+type Props = {
+  settings: ShootingSettings;
+  onChange: (settings: ShootingSettings) => void;
+};
+
+const MODES: { mode: ShootingMode; label: string }[] = [
+  { mode: 'single', label: 'Single' },
+  { mode: 'timer', label: 'Timer' },
+  { mode: 'burst', label: 'Burst' },
+  { mode: 'interval', label: 'Interval' },
+];
+
+function ShootingModePanel({ settings, onChange }: Props): React.JSX.Element {
+  return (
+    <View style={styles.container}>
+      <ChipRow
+        title="Mode"
+        values={MODES.map(m => m.mode)}
+        selected={settings.mode}
+        format={mode => MODES.find(m => m.mode === mode)?.label ?? mode}
+        onSelect={mode => onChange({ ...settings, mode })}
+      />
+      {settings.mode === 'timer' && (
+        <ChipRow
+          title="Delay"
+          values={TIMER_SECONDS}
+          selected={settings.timerSeconds}
+          format={seconds => `${seconds}s`}
+          onSelect={timerSeconds => onChange({ ...settings, timerSeconds })}
+        />
+      )}
+      {settings.mode === 'burst' && (
+        <ChipRow
+          title="Shots"
+          values={BURST_COUNTS}
+          selected={settings.burstCount}
+          format={count => `${count}`}
+          onSelect={burstCount => onChange({ ...settings, burstCount })}
+        />
+      )}
+      {settings.mode === 'interval' && (
+        <>
+          <ChipRow
+            title="Every"
+            values={INTERVAL_SECONDS}
+            selected={settings.intervalSeconds}
+            format={seconds => `${seconds}s`}
+            onSelect={intervalSeconds =>
+              onChange({ ...settings, intervalSeconds })
+            }
+          />
+          <ChipRow
+            title="Shots"
+            values={INTERVAL_COUNTS}
+            selected={settings.intervalCount}
+            format={count => (count == null ? '∞' : `${count}`)}
+            onSelect={intervalCount => onChange({ ...settings, intervalCount })}
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 220,
+    left: 20,
+    right: 20,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    borderRadius: 12,
+    padding: 10,
+    zIndex: 20,
+  },
+});
+
+export default ShootingModePanel;
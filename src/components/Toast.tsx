@@ -0,0 +1,37 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+type Props = {
+  message: string | null;
+};
+
+function Toast({ message }: Props): React.JSX.Element | null {
+  if (!message) {
+    return null;
+  }
+  return (
+    <View style={styles.toast} pointerEvents="none">
+      <Text style={styles.toastText}>{message}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    bottom: 260,
+    alignSelf: 'center',
+    maxWidth: '80%',
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  toastText: {
+    color: 'white',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
+
+export default Toast;
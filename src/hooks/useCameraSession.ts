@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useReducer } from 'react';
+import type { CameraDevice } from 'react-native-vision-camera';
+import {
+  INITIAL_CAMERA_SESSION,
+  cameraSessionReducer,
+} from '../camera/cameraSession';
+import { CameraFormat } from '../camera/types';
+
+/**
+ * The selected camera, its active format and where the session is in its
+ * lifecycle. See `cameraSessionReducer` for the allowed transitions.
+ */
+export const useCameraSession = (hasPermission: boolean) => {
+  const [session, dispatch] = useReducer(
+    cameraSessionReducer,
+    INITIAL_CAMERA_SESSION,
+  );
+
+  useEffect(() => {
+    dispatch({ type: 'permissionChanged', granted: hasPermission });
+  }, [hasPermission]);
+
+  const actions = useMemo(
+    () => ({
+      selectDevice: (device: CameraDevice) =>
+        dispatch({ type: 'deviceSelected', device }),
+      loseDevice: () => dispatch({ type: 'deviceLost' }),
+      selectFormat: (
+        format: CameraFormat,
+        photoResolution?: string,
+        aspectRatioKey?: string | null,
+      ) =>
+        dispatch({
+          type: 'formatSelected',
+          format,
+          photoResolution,
+          aspectRatioKey,
+        }),
+      startCapture: () => dispatch({ type: 'captureStarted' }),
+      startProcessing: () => dispatch({ type: 'processingStarted' }),
+      finishCapture: () => dispatch({ type: 'captureFinished' }),
+      failSession: (error: string, code?: string) =>
+        dispatch({ type: 'failed', error, code }),
+      retrySession: () => dispatch({ type: 'retry' }),
+    }),
+    [],
+  );
+
+  return { session, ...actions };
+};
@@ -0,0 +1,55 @@
+import { useCallback } from 'react';
+import {
+  CaptureRecord,
+  captureHistory,
+  createCaptureId,
+  deleteCaptureFile,
+  persistCaptureFile,
+} from '../storage/captureHistory';
+import { usePersistedList } from './usePersistedList';
+
+export type NewCapture = Omit<CaptureRecord, 'id' | 'timestamp'>;
+
+export const useCaptureHistory = () => {
+  const {
+    items: captures,
+    itemsRef: capturesRef,
+    update,
+  } = usePersistedList(captureHistory);
+
+  const addCapture = useCallback(
+    async (capture: NewCapture) => {
+      const id = createCaptureId();
+      const path = await persistCaptureFile(capture.path, id);
+      const thumbnailPath = capture.thumbnailPath
+        ? await persistCaptureFile(capture.thumbnailPath, `${id}-thumbnail`)
+        : undefined;
+      const record: CaptureRecord = {
+        ...capture,
+        id,
+        path,
+        thumbnailPath,
+        timestamp: Date.now(),
+      };
+      update([record, ...capturesRef.current]);
+      return record;
+    },
+    [capturesRef, update],
+  );
+
+  const deleteCapture = useCallback(
+    async (id: string) => {
+      const record = capturesRef.current.find(c => c.id === id);
+      if (record) {
+        await deleteCaptureFile(record.path);
+        if (record.thumbnailPath) {
+          await deleteCaptureFile(record.thumbnailPath);
+        }
+      }
+      update(capturesRef.current.filter(c => c.id !== id));
+    },
+    [capturesRef, update],
+  );
+
+  return { captures, addCapture, deleteCapture };
+};
@@ -0,0 +1,33 @@
+import { useCallback } from 'react';
+import { diagnosticsLog } from '../storage/diagnosticsLog';
+import {
+  DiagnosticsEntry,
+  MAX_DIAGNOSTICS_ENTRIES,
+  appendDiagnostic,
+} from '../utils/diagnostics';
+import { usePersistedList } from './usePersistedList';
+
+export type NewDiagnostic = Omit<DiagnosticsEntry, 'timestamp'>;
+
+export const useDiagnosticsLog = () => {
+  const {
+    items: entries,
+    itemsRef: entriesRef,
+    update,
+  } = usePersistedList(diagnosticsLog, MAX_DIAGNOSTICS_ENTRIES);
+
+  const log = useCallback(
+    (entry: NewDiagnostic) =>
+      update(
+        appendDiagnostic(entriesRef.current, {
+          ...entry,
+          timestamp: Date.now(),
+        }),
+      ),
+    [entriesRef, update],
+  );
+
+  const clear = useCallback(() => update([]), [update]);
+
+  return { entries, log, clear };
+};
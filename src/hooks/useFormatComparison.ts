@@ -0,0 +1,69 @@
+import { useCallback } from 'react';
+import { PhotoFile } from 'react-native-vision-camera';
+import {
+  COMPARISON_SLOTS,
+  ComparisonShot,
+  PinnedFormats,
+} from '../camera/formatBrowser';
+import { CameraFormat } from '../camera/types';
+import { useSequentialCapture } from './useSequentialCapture';
+
+type ComparisonPipeline = {
+  applyFormat: (format: CameraFormat) => void;
+  // Resolves once the preview shows frames again after a format change.
+  waitForPreview: () => Promise<void>;
+  takePhoto: () => Promise<PhotoFile>;
+};
+
+// Give auto exposure and focus a moment on the new format before shooting.
+const SETTLE_MS = 700;
+
+/**
+ * Captures the same scene with both pinned formats, one after the other, and
+ * switches back to the format that was active before.
+ */
+export const useFormatComparison = ({
+  applyFormat,
+  waitForPreview,
+  takePhoto,
+}: ComparisonPipeline) => {
+  const { capture, isCapturing } = useSequentialCapture<CameraFormat>({
+    apply: applyFormat,
+    restore: applyFormat,
+    waitForPreview,
+    takePhoto,
+    settleMs: SETTLE_MS,
+  });
+
+  const compare = useCallback(
+    async (
+      pinned: PinnedFormats,
+      activeFormat: CameraFormat,
+    ): Promise<ComparisonShot[] | null> => {
+      const pinnedSlots = COMPARISON_SLOTS.flatMap(slot => {
+        const format = pinned[slot];
+        return format ? [{ slot, format }] : [];
+      });
+      const results = await capture(
+        activeFormat,
+        pinnedSlots.map(({ format }) => format),
+      );
+      return (
+        results?.map((result, index) => {
+          const shot = pinnedSlots[index];
+          return 'error' in result
+            ? { ...shot, error: result.error }
+            : {
+                ...shot,
+                path: result.photo.path,
+                resolution: `${result.photo.width}x${result.photo.height}`,
+                size: result.size,
+              };
+        }) ?? null
+      );
+    },
+    [capture],
+  );
+
+  return { compare, isComparing: isCapturing };
+};
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { runAtTargetFps, useFrameProcessor } from 'react-native-vision-camera';
+import { useRunOnJS, useSharedValue } from 'react-native-worklets-core';
+import {
+  AnalyserResult,
+  FRAME_ANALYSERS,
+  FrameAnalyser,
+  measureFps,
+  recordFrameTimestamp,
+} from '../processing/frameAnalysers';
+
+// Copying a frame to the CPU is the expensive part, so pixel analysis is sampled;
+// frame timing is still recorded on every frame.
+const ANALYSIS_FPS = 3;
+
+export type FrameStatistics = {
+  fps: number;
+  results: { [analyserId: string]: AnalyserResult };
+};
+
+export const useFrameStatistics = (
+  analysers: FrameAnalyser[] = FRAME_ANALYSERS,
+) => {
+  const [statistics, setStatistics] = useState<FrameStatistics | null>(null);
+  const frameTimestamps = useSharedValue<number[]>([]);
+  const publish = useRunOnJS(
+    (next: FrameStatistics) => setStatistics(next),
+    [],
+  );
+
+  const frameProcessor = useFrameProcessor(
+    frame => {
+      'worklet';
+      const timestamps = recordFrameTimestamp(
+        frameTimestamps.value,
+        Date.now(),
+      );
+      frameTimestamps.value = timestamps;
+
+      runAtTargetFps(ANALYSIS_FPS, () => {
+        'worklet';
+        // Only the Y plane of a YUV frame is read; it comes first in the buffer.
+        if (frame.pixelFormat !== 'yuv') {
+          return;
+        }
+        const luma = {
+          width: frame.width,
+          height: frame.height,
+          bytesPerRow: frame.bytesPerRow,
+          data: new Uint8Array(frame.toArrayBuffer()),
+        };
+        const results: { [analyserId: string]: AnalyserResult } = {};
+        analysers.forEach(analyser => {
+          results[analyser.id] = analyser.analyse(luma);
+        });
+        publish({ fps: measureFps(timestamps), results });
+      });
+    },
+    [analysers, frameTimestamps, publish],
+  );
+
+  return { statistics, frameProcessor };
+};
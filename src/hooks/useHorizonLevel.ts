@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
+import { getTiltDegrees } from '../camera/compositionGuides';
+
+type Gravity = { x: number; y: number; z: number };
+
+// The app's own module (GravitySensorModule.kt, GravitySensor.m): it streams
+// "gravity" events between start() and stop().
+const { GravitySensor } = NativeModules;
+
+const UPDATE_INTERVAL_MS = 100;
+
+// Core Motion reports gravity as the pull towards the ground (-y when upright),
+// Android as the reaction against it (+y).
+const GRAVITY_SIGN = Platform.OS === 'ios' ? -1 : 1;
+
+/** Device tilt in degrees while `enabled`, or null if flat or unavailable. */
+export const useHorizonLevel = (enabled: boolean) => {
+  const [tilt, setTilt] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setTilt(null);
+      return;
+    }
+    if (!GravitySensor) {
+      console.warn('Gravity sensor module is not linked');
+      return;
+    }
+    const subscription = new NativeEventEmitter(GravitySensor).addListener(
+      'gravity',
+      ({ x, y, z }: Gravity) =>
+        setTilt(
+          getTiltDegrees({
+            x: x * GRAVITY_SIGN,
+            y: y * GRAVITY_SIGN,
+            z: z * GRAVITY_SIGN,
+          }),
+        ),
+    );
+    GravitySensor.start(UPDATE_INTERVAL_MS).catch((error: Error) => {
+      console.warn('Gravity sensor unavailable', error);
+      setTilt(null);
+    });
+    return () => {
+      subscription.remove();
+      GravitySensor.stop();
+    };
+  }, [enabled]);
+
+  return tilt;
+};
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+/** Whether the app is in the foreground, so the camera can be paused in the background. */
+export const useIsForeground = () => {
+  const [isForeground, setIsForeground] = useState(
+    AppState.currentState === 'active',
+  );
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state =>
+      setIsForeground(state === 'active'),
+    );
+    return () => subscription.remove();
+  }, []);
+
+  return isForeground;
+};
@@ -0,0 +1,75 @@
+import { useCallback } from 'react';
+import type { CameraDevice, PhotoFile } from 'react-native-vision-camera';
+import { getDefaultPhotoFormat } from '../camera/cameraSession';
+import { LensShot, LensTarget } from '../camera/multiCamCapture';
+import { CameraFormat } from '../camera/types';
+import { parsePhotoMetadata } from '../processing/photoMetadata';
+import { useSequentialCapture } from './useSequentialCapture';
+
+type LensSetPipeline = {
+  selectLens: (device: CameraDevice) => void;
+  // Resolves once the preview shows frames again after a device change.
+  waitForPreview: () => Promise<void>;
+  takePhoto: () => Promise<PhotoFile>;
+  // Puts back the device and settings that were active before the set.
+  restore: () => void;
+};
+
+// Give auto exposure and focus a moment on the new lens before shooting.
+const SETTLE_MS = 500;
+
+/**
+ * Photographs the same moment with each lens of a multi-cam device.
+ * VisionCamera runs one capture session at a time, so the lenses are switched
+ * through in rapid sequence rather than captured concurrently.
+ */
+export const useLensSetCapture = ({
+  selectLens,
+  waitForPreview,
+  takePhoto,
+  restore,
+}: LensSetPipeline) => {
+  const { capture, isCapturing } = useSequentialCapture<CameraDevice>({
+    apply: selectLens,
+    restore,
+    waitForPreview,
+    takePhoto,
+    settleMs: SETTLE_MS,
+  });
+
+  const captureLensSet = useCallback(
+    async (
+      targets: LensTarget[],
+      activeDevice: CameraDevice,
+      activeFormat: CameraFormat,
+    ): Promise<LensShot[] | null> => {
+      const results = await capture(
+        activeDevice,
+        targets.map(target => target.device),
+      );
+      return (
+        results?.map((result, index) => {
+          const { role, device } = targets[index];
+          // The session reducer gives a newly selected device its largest photo format.
+          const format =
+            device === activeDevice
+              ? activeFormat
+              : getDefaultPhotoFormat(device);
+          const shot = { role, device, fieldOfView: format?.fieldOfView };
+          return 'error' in result
+            ? { ...shot, error: result.error }
+            : {
+                ...shot,
+                path: result.photo.path,
+                resolution: `${result.photo.width}x${result.photo.height}`,
+                size: result.size,
+                exif: parsePhotoMetadata(result.photo.metadata),
+              };
+        }) ?? null
+      );
+    },
+    [capture],
+  );
+
+  return { captureLensSet, isCapturingLensSet: isCapturing };
+};
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { OutputSettings } from '../processing/outputSettings';
+import {
+  DEFAULT_STORED_OUTPUT_PROFILES,
+  StoredOutputProfiles,
+  loadOutputProfiles,
+  saveOutputProfiles,
+} from '../storage/outputProfiles';
+
+/** The output profiles, the active one, and edits that persist per profile. */
+export const useOutputProfiles = () => {
+  const [stored, setStored] = useState<StoredOutputProfiles>(
+    DEFAULT_STORED_OUTPUT_PROFILES,
+  );
+  const storedRef = useRef(stored);
+  const isEdited = useRef(false);
+
+  const update = useCallback((next: StoredOutputProfiles) => {
+    isEdited.current = true;
+    storedRef.current = next;
+    setStored(next);
+    saveOutputProfiles(next).catch(e =>
+      console.error('Failed to save output profiles', e),
+    );
+  }, []);
+
+  useEffect(() => {
+    loadOutputProfiles()
+      .then(loaded => {
+        // A choice made while loading wins over the stored one.
+        if (!isEdited.current) {
+          storedRef.current = loaded;
+          setStored(loaded);
+        }
+      })
+      .catch(e => console.error('Failed to load output profiles', e));
+  }, []);
+
+  const selectProfile = useCallback(
+    (id: string) => update({ ...storedRef.current, activeProfileId: id }),
+    [update],
+  );
+
+  const updateActiveSettings = useCallback(
+    (settings: OutputSettings) =>
+      update({
+        ...storedRef.current,
+        profiles: storedRef.current.profiles.map(profile =>
+          profile.id === storedRef.current.activeProfileId
+            ? { ...profile, settings }
+            : profile,
+        ),
+      }),
+    [update],
+  );
+
+  const activeProfile =
+    stored.profiles.find(profile => profile.id === stored.activeProfileId) ??
+    stored.profiles[0];
+
+  return {
+    profiles: stored.profiles,
+    activeProfile,
+    selectProfile,
+    updateActiveSettings,
+  };
+};
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { Camera } from 'react-native-vision-camera';
+import { PermissionKind, PermissionStatuses } from '../camera/permissions';
+
+const readStatuses = (): PermissionStatuses => ({
+  camera: Camera.getCameraPermissionStatus(),
+  microphone: Camera.getMicrophonePermissionStatus(),
+  location: Camera.getLocationPermissionStatus(),
+});
+
+const requestPermission = (kind: PermissionKind) => {
+  switch (kind) {
+    case 'camera':
+      return Camera.requestCameraPermission();
+    case 'microphone':
+      return Camera.requestMicrophonePermission();
+    case 'location':
+      return Camera.requestLocationPermission();
+  }
+};
+
+/**
+ * Camera, microphone and location permission statuses, re-read whenever the
+ * app comes back to the foreground since they may have changed in Settings.
+ * `refused` lists the kinds a request left denied during this session.
+ */
+export const usePermissions = () => {
+  const [statuses, setStatuses] = useState<PermissionStatuses>(readStatuses);
+  const [refused, setRefused] = useState<PermissionKind[]>([]);
+
+  const refresh = useCallback(() => setStatuses(readStatuses()), []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refresh();
+      }
+    });
+    return () => subscription.remove();
+  }, [refresh]);
+
+  const request = useCallback(
+    async (kind: PermissionKind) => {
+      try {
+        const granted = (await requestPermission(kind)) === 'granted';
+        setRefused(current =>
+          granted
+            ? current.filter(k => k !== kind)
+            : [...new Set([...current, kind])],
+        );
+        return granted;
+      } catch (e) {
+        console.error(`Failed to request ${kind} permission`, e);
+        return false;
+      } finally {
+        refresh();
+      }
+    },
+    [refresh],
+  );
+
+  return { statuses, refused, request, refresh };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PersistedList } from '../storage/persistedList';
+
+/**
+ * State backed by a persisted list. `itemsRef` always holds the latest items
+ * for callbacks; `update` replaces them and saves in the background. Items
+ * added before the stored ones have loaded stay in front of them, and are
+ * saved together with them once loading finishes: saving earlier would
+ * overwrite the stored list.
+ */
+export const usePersistedList = <T>(
+  list: PersistedList<T>,
+  maxLength = Infinity,
+) => {
+  const [items, setItems] = useState<T[]>([]);
+  const itemsRef = useRef<T[]>([]);
+  const isLoaded = useRef(false);
+
+  const save = useCallback(
+    (next: T[]) =>
+      list
+        .save(next)
+        .catch(e => console.error(`Failed to save ${list.name}`, e)),
+    [list],
+  );
+
+  const update = useCallback(
+    (next: T[]) => {
+      itemsRef.current = next;
+      setItems(next);
+      if (isLoaded.current) {
+        save(next);
+      }
+    },
+    [save],
+  );
+
+  useEffect(() => {
+    isLoaded.current = false;
+    list
+      .load()
+      .then(stored => {
+        const added = itemsRef.current;
+        itemsRef.current = [...added, ...stored].slice(0, maxLength);
+        isLoaded.current = true;
+        setItems(itemsRef.current);
+        if (added.length > 0) {
+          save(itemsRef.current);
+        }
+      })
+      .catch(e => console.error(`Failed to load ${list.name}`, e));
+  }, [list, maxLength, save]);
+
+  return { items, itemsRef, update };
+};
@@ -0,0 +1,58 @@
+import { useMemo, useRef } from 'react';
+import { GestureResponderEvent, PanResponder } from 'react-native';
+import { zoomFromPinch } from '../camera/zoom';
+
+const touchDistance = (event: GestureResponderEvent) => {
+  const [a, b] = event.nativeEvent.touches;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+const isPinch = (event: GestureResponderEvent) =>
+  event.nativeEvent.touches.length === 2;
+
+export const usePinchToZoom = (
+  zoom: number,
+  minZoom: number,
+  maxZoom: number,
+  onZoomChange: (zoom: number) => void,
+) => {
+  const latest = useRef({ zoom, minZoom, maxZoom, onZoomChange });
+  latest.current = { zoom, minZoom, maxZoom, onZoomChange };
+  const pinchStart = useRef<{ distance: number; zoom: number } | null>(null);
+
+  return useMemo(
+    () =>
+      PanResponder.create({
+        // Capture so a pinch wins over tap handlers rendered inside the preview.
+        onStartShouldSetPanResponderCapture: isPinch,
+        onMoveShouldSetPanResponderCapture: isPinch,
+        onPanResponderMove: event => {
+          if (!isPinch(event)) {
+            pinchStart.current = null;
+            return;
+          }
+          const distance = touchDistance(event);
+          if (pinchStart.current == null) {
+            pinchStart.current = { distance, zoom: latest.current.zoom };
+            return;
+          }
+          latest.current.onZoomChange(
+            zoomFromPinch(
+              pinchStart.current.zoom,
+              pinchStart.current.distance,
+              distance,
+              latest.current.minZoom,
+              latest.current.maxZoom,
+            ),
+          );
+        },
+        onPanResponderRelease: () => {
+          pinchStart.current = null;
+        },
+        onPanResponderTerminate: () => {
+          pinchStart.current = null;
+        },
+      }).panHandlers,
+    [],
+  );
+};
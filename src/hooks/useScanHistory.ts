@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { createCaptureId } from '../storage/captureHistory';
+import {
+  MAX_SCAN_HISTORY,
+  ScanRecord,
+  scanHistory,
+} from '../storage/scanHistory';
+import { usePersistedList } from './usePersistedList';
+
+export type NewScan = Omit<ScanRecord, 'id' | 'timestamp'>;
+
+export const useScanHistory = () => {
+  const {
+    items: scans,
+    itemsRef: scansRef,
+    update,
+  } = usePersistedList(scanHistory, MAX_SCAN_HISTORY);
+
+  const addScan = useCallback(
+    (scan: NewScan) => {
+      const record: ScanRecord = {
+        ...scan,
+        id: createCaptureId(),
+        timestamp: Date.now(),
+      };
+      update([record, ...scansRef.current].slice(0, MAX_SCAN_HISTORY));
+      return record;
+    },
+    [scansRef, update],
+  );
+
+  const clearScans = useCallback(() => update([]), [update]);
+
+  return { scans, addScan, clearScans };
+};
@@ -0,0 +1,84 @@
+import { useCallback, useRef, useState } from 'react';
+import type { PhotoFile } from 'react-native-vision-camera';
+import RNFS from 'react-native-fs';
+
+type SequentialCapturePipeline<S> = {
+  // Switches the camera to a setting, such as another device or format.
+  apply: (setting: S) => void;
+  // Puts back what was active before the sequence.
+  restore: (initial: S) => void;
+  // Resolves once the preview shows frames again after a switch.
+  waitForPreview: () => Promise<void>;
+  takePhoto: () => Promise<PhotoFile>;
+  // Time auto exposure and focus get after a switch before shooting.
+  settleMs: number;
+};
+
+export type SequentialShot =
+  | { photo: PhotoFile; size?: number }
+  | { error: string };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Takes one photo per setting, switching the camera to each in turn since
+ * VisionCamera runs a single capture session at a time, then restores the
+ * initial setting. Shots come back in the order of the settings; starting
+ * again while a sequence runs resolves to null.
+ */
+export const useSequentialCapture = <S>({
+  apply,
+  restore,
+  waitForPreview,
+  takePhoto,
+  settleMs,
+}: SequentialCapturePipeline<S>) => {
+  const [isCapturing, setIsCapturing] = useState(false);
+  const runningRef = useRef(false);
+
+  const capture = useCallback(
+    async (initial: S, settings: S[]): Promise<SequentialShot[] | null> => {
+      if (runningRef.current) {
+        return null;
+      }
+      runningRef.current = true;
+      setIsCapturing(true);
+
+      let current = initial;
+      const shots: SequentialShot[] = [];
+      try {
+        for (const setting of settings) {
+          try {
+            if (setting !== current) {
+              const started = waitForPreview();
+              apply(setting);
+              current = setting;
+              await started;
+              await delay(settleMs);
+            }
+            const photo = await takePhoto();
+            let size: number | undefined;
+            try {
+              size = (await RNFS.stat(photo.path)).size;
+            } catch (e) {
+              console.warn('Could not read photo size', e);
+            }
+            shots.push({ photo, size });
+          } catch (e: any) {
+            shots.push({ error: e.message });
+          }
+        }
+        return shots;
+      } finally {
+        if (current !== initial) {
+          restore(initial);
+        }
+        runningRef.current = false;
+        setIsCapturing(false);
+      }
+    },
+    [apply, restore, waitForPreview, takePhoto, settleMs],
+  );
+
+  return { capture, isCapturing };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  INITIAL_SESSION_TIMING,
+  RESTART_TIMEOUT_MS,
+  SessionConfig,
+  SessionTiming,
+  cancelRestart,
+  completeRestart,
+  describeSessionChange,
+  expireRestart,
+  startRestart,
+} from '../camera/sessionTiming';
+
+/**
+ * Measures how long the camera takes to show a preview again after its device
+ * or format changes. Call `onPreviewStarted` and `onSessionError` from the
+ * `<Camera>` props `onPreviewStarted` and `onError`.
+ */
+export const useSessionTiming = (config: SessionConfig) => {
+  const [timing, setTiming] = useState<SessionTiming>(INITIAL_SESSION_TIMING);
+  const previousConfig = useRef<SessionConfig | null>(null);
+  const { deviceId, format, isActive } = config;
+
+  useEffect(() => {
+    const next = { deviceId, format, isActive };
+    const reason = describeSessionChange(previousConfig.current, next);
+    previousConfig.current = next;
+    if (reason) {
+      const now = Date.now();
+      setTiming(current => startRestart(current, reason, now));
+    } else if (!isActive) {
+      setTiming(cancelRestart);
+    }
+  }, [deviceId, format, isActive]);
+
+  useEffect(() => {
+    if (!timing.pending) {
+      return;
+    }
+    const timeout = setTimeout(
+      () => setTiming(current => expireRestart(current, Date.now())),
+      RESTART_TIMEOUT_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [timing.pending]);
+
+  const onPreviewStarted = useCallback(() => {
+    const now = Date.now();
+    setTiming(current => completeRestart(current, now));
+  }, []);
+
+  const onSessionError = useCallback(() => setTiming(cancelRestart), []);
+
+  return { timing, onPreviewStarted, onSessionError };
+};
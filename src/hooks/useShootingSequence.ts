@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PhotoFile } from 'react-native-vision-camera';
+import {
+  SequenceReport,
+  ShootingSettings,
+  ShotResult,
+} from '../camera/shootingModes';
+
+export type FinishedPhoto = Omit<ShotResult, 'index' | 'capturedAt'>;
+
+type PhotoPipeline = {
+  takePhoto: () => Promise<PhotoFile>;
+  finishPhoto: (photo: PhotoFile) => Promise<FinishedPhoto>;
+};
+
+export type SequenceProgress = {
+  taken: number;
+  total: number | null;
+  nextShotAt: number | null;
+};
+
+const TICK_MS = 100;
+
+/**
+ * Runs timer, burst and interval sequences. Shots are taken back to back
+ * without waiting for `finishPhoto` (post-processing and saving), so processing
+ * never slows the capture cadence. Shots are processed one at a time, in order,
+ * so a burst never decodes several full-size photos at once.
+ */
+export const useShootingSequence = ({
+  takePhoto,
+  finishPhoto,
+}: PhotoPipeline) => {
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [progress, setProgress] = useState<SequenceProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const runningRef = useRef(false);
+  const stopRequested = useRef(false);
+
+  useEffect(
+    () => () => {
+      stopRequested.current = true;
+    },
+    [],
+  );
+
+  const stop = useCallback(() => {
+    stopRequested.current = true;
+  }, []);
+
+  const run = useCallback(
+    async (settings: ShootingSettings): Promise<SequenceReport | null> => {
+      if (runningRef.current) {
+        return null;
+      }
+      runningRef.current = true;
+      stopRequested.current = false;
+      setIsRunning(true);
+
+      const waitUntil = async (time: number) => {
+        while (!stopRequested.current && Date.now() < time) {
+          await new Promise(resolve =>
+            setTimeout(resolve, Math.min(TICK_MS, time - Date.now())),
+          );
+        }
+        return !stopRequested.current;
+      };
+
+      const processing: Promise<ShotResult>[] = [];
+      // Settles after the last queued photo, whether it was processed or failed.
+      let queue: Promise<unknown> = Promise.resolve();
+      const shoot = async (index: number) => {
+        try {
+          const photo = await takePhoto();
+          const capturedAt = Date.now();
+          const processed = queue.then(() => finishPhoto(photo));
+          queue = processed.catch(() => {});
+          processing.push(
+            processed.then(
+              finished => ({ ...finished, index, capturedAt }),
+              (e: any) => ({ index, capturedAt, error: e.message }),
+            ),
+          );
+        } catch (e: any) {
+          processing.push(
+            Promise.resolve({
+              index,
+              capturedAt: Date.now(),
+              error: e.message,
+            }),
+          );
+        }
+      };
+
+      let startedAt = Date.now();
+      let requested: number | null = 1;
+      try {
+        if (settings.mode === 'timer') {
+          const end = startedAt + settings.timerSeconds * 1000;
+          for (
+            let remaining = settings.timerSeconds;
+            remaining > 0;
+            remaining--
+          ) {
+            setCountdown(remaining);
+            if (!(await waitUntil(end - (remaining - 1) * 1000))) {
+              return null;
+            }
+          }
+          setCountdown(null);
+          startedAt = Date.now();
+          await shoot(0);
+        } else if (settings.mode === 'burst') {
+          requested = settings.burstCount;
+          for (let i = 0; i < requested && !stopRequested.current; i++) {
+            setProgress({ taken: i, total: requested, nextShotAt: null });
+            await shoot(i);
+          }
+        } else if (settings.mode === 'interval') {
+          requested = settings.intervalCount;
+          for (let i = 0; requested == null || i < requested; i++) {
+            const shotAt = startedAt + i * settings.intervalSeconds * 1000;
+            setProgress({ taken: i, total: requested, nextShotAt: shotAt });
+            if (!(await waitUntil(shotAt))) {
+              break;
+            }
+            await shoot(i);
+          }
+        } else {
+          await shoot(0);
+        }
+
+        setProgress(null);
+        return {
+          settings,
+          requested,
+          shots: await Promise.all(processing),
+          startedAt,
+          stopped: stopRequested.current,
+        };
+      } finally {
+        runningRef.current = false;
+        setIsRunning(false);
+        setCountdown(null);
+        setProgress(null);
+      }
+    },
+    [takePhoto, finishPhoto],
+  );
+
+  return { run, stop, isRunning, countdown, progress };
+};
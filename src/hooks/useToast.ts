@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const TOAST_DURATION_MS = 2500;
+
+export const useToast = () => {
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const hideTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (hideTimeout.current) {
+        clearTimeout(hideTimeout.current);
+      }
+    },
+    [],
+  );
+
+  const showToast = useCallback((message: string) => {
+    if (hideTimeout.current) {
+      clearTimeout(hideTimeout.current);
+    }
+    setToastMessage(message);
+    hideTimeout.current = setTimeout(
+      () => setToastMessage(null),
+      TOAST_DURATION_MS,
+    );
+  }, []);
+
+  return { toastMessage, showToast };
+};
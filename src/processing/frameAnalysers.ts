@@ -0,0 +1,145 @@
+// Analysers run inside the frame processor worklet, so every function here is a
+// 'worklet' and only touches its arguments. They stay plain functions over pixel
+// buffers so they can be exercised with synthetic frames in tests.
+
+/** The luminance (Y) plane of a YUV frame: one byte per pixel, rows padded to bytesPerRow. */
+export type LumaFrame = {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+};
+
+export type AnalyserResult = {
+  summary: string;
+  warning?: string;
+  histogram?: number[];
+};
+
+export type FrameAnalyser = {
+  id: string;
+  label: string;
+  analyse: (frame: LumaFrame) => AnalyserResult;
+};
+
+// Reading every 4th pixel in both directions keeps a 1080p frame to ~130k reads.
+export const SAMPLE_STEP = 4;
+export const HISTOGRAM_BINS = 32;
+export const HIGHLIGHT_CLIP_LEVEL = 250;
+export const SHADOW_CLIP_LEVEL = 5;
+export const CLIPPING_WARNING_FRACTION = 0.05;
+export const FPS_WINDOW_MS = 1000;
+
+export const computeLuminanceHistogram = (
+  frame: LumaFrame,
+  bins = HISTOGRAM_BINS,
+  step = SAMPLE_STEP,
+): number[] => {
+  'worklet';
+  const counts: number[] = new Array(bins).fill(0);
+  let total = 0;
+  for (let y = 0; y < frame.height; y += step) {
+    const row = y * frame.bytesPerRow;
+    for (let x = 0; x < frame.width; x += step) {
+      counts[Math.floor((frame.data[row + x] * bins) / 256)]++;
+      total++;
+    }
+  }
+  return counts.map(count => (total > 0 ? count / total : 0));
+};
+
+export type BrightnessStats = {
+  average: number;
+  highlightClipping: number;
+  shadowClipping: number;
+};
+
+export const computeBrightnessStats = (
+  frame: LumaFrame,
+  step = SAMPLE_STEP,
+): BrightnessStats => {
+  'worklet';
+  let sum = 0;
+  let highlights = 0;
+  let shadows = 0;
+  let total = 0;
+  for (let y = 0; y < frame.height; y += step) {
+    const row = y * frame.bytesPerRow;
+    for (let x = 0; x < frame.width; x += step) {
+      const value = frame.data[row + x];
+      sum += value;
+      if (value >= HIGHLIGHT_CLIP_LEVEL) {
+        highlights++;
+      } else if (value <= SHADOW_CLIP_LEVEL) {
+        shadows++;
+      }
+      total++;
+    }
+  }
+  if (total === 0) {
+    return { average: 0, highlightClipping: 0, shadowClipping: 0 };
+  }
+  return {
+    average: sum / total,
+    highlightClipping: highlights / total,
+    shadowClipping: shadows / total,
+  };
+};
+
+export const getExposureWarning = (stats: BrightnessStats) => {
+  'worklet';
+  if (stats.highlightClipping >= CLIPPING_WARNING_FRACTION) {
+    return `Highlights clipped (${Math.round(stats.highlightClipping * 100)}%)`;
+  }
+  if (stats.shadowClipping >= CLIPPING_WARNING_FRACTION) {
+    return `Shadows clipped (${Math.round(stats.shadowClipping * 100)}%)`;
+  }
+  return undefined;
+};
+
+/** Appends a frame time and drops the ones older than the measuring window. */
+export const recordFrameTimestamp = (
+  timestamps: number[],
+  now: number,
+  windowMs = FPS_WINDOW_MS,
+) => {
+  'worklet';
+  return [...timestamps.filter(t => now - t <= windowMs), now];
+};
+
+export const measureFps = (timestamps: number[]) => {
+  'worklet';
+  if (timestamps.length < 2) {
+    return 0;
+  }
+  const elapsed = timestamps[timestamps.length - 1] - timestamps[0];
+  return elapsed > 0 ? ((timestamps.length - 1) * 1000) / elapsed : 0;
+};
+
+export const luminanceHistogramAnalyser: FrameAnalyser = {
+  id: 'histogram',
+  label: 'Luminance',
+  analyse: frame => {
+    'worklet';
+    return { summary: '', histogram: computeLuminanceHistogram(frame) };
+  },
+};
+
+export const brightnessAnalyser: FrameAnalyser = {
+  id: 'brightness',
+  label: 'Brightness',
+  analyse: frame => {
+    'worklet';
+    const stats = computeBrightnessStats(frame);
+    return {
+      summary: `${Math.round((stats.average / 255) * 100)}% average`,
+      warning: getExposureWarning(stats),
+    };
+  },
+};
+
+/** Analysers run on every sampled frame; add new ones here. */
+export const FRAME_ANALYSERS: FrameAnalyser[] = [
+  luminanceHistogramAnalyser,
+  brightnessAnalyser,
+];
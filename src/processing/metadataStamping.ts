@@ -0,0 +1,59 @@
+import RNFS from 'react-native-fs';
+import { Resolution } from '../utils/resolution';
+import {
+  MetadataStamp,
+  applyMetadataStamp,
+  getJpegOrientation,
+} from './photoMetadata';
+
+const toFilePath = (path: string) => path.replace(/^file:\/\//, '');
+
+const isJpeg = (path: string) => /\.jpe?g$/i.test(path);
+
+// piexifjs works on binary strings; RNFS reads and writes base64.
+const readBinary = async (path: string) =>
+  atob(await RNFS.readFile(toFilePath(path), 'base64'));
+
+// EXIF lives in the APP1 segment at the start of a JPEG, which is capped at
+// 64 KB, so the rest of the file is never read for the orientation.
+const EXIF_HEADER_BYTES = 65536;
+
+/** The EXIF orientation stored in the photo file at `path`, if any. */
+export const readPhotoOrientation = async (path: string) =>
+  isJpeg(path)
+    ? getJpegOrientation(
+        atob(await RNFS.read(toFilePath(path), EXIF_HEADER_BYTES, 0, 'base64')),
+      )
+    : undefined;
+
+/**
+ * Stamps our metadata into the saved photo at `path`. Pass `original` when
+ * `path` is a processed copy, so the camera's EXIF is carried over.
+ * Returns false for formats we cannot write EXIF into.
+ */
+export const stampPhotoFile = async (
+  path: string,
+  stamp: MetadataStamp,
+  original?: {
+    path: string;
+    outputSize: Resolution;
+    exifOrientation?: number;
+  },
+) => {
+  if (!isJpeg(path)) {
+    console.warn(`Not stamping metadata into ${path}: only JPEG is supported`);
+    return false;
+  }
+  const jpeg = await readBinary(path);
+  const cropped =
+    original && isJpeg(original.path)
+      ? {
+          originalJpeg: await readBinary(original.path),
+          outputSize: original.outputSize,
+          exifOrientation: original.exifOrientation,
+        }
+      : undefined;
+  const stamped = applyMetadataStamp(jpeg, stamp, cropped);
+  await RNFS.writeFile(toFilePath(path), btoa(stamped), 'base64');
+  return true;
+};
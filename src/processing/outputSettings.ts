@@ -0,0 +1,242 @@
+import type { CameraDevice } from 'react-native-vision-camera';
+import { Resolution } from '../utils/resolution';
+import { formatFileSize } from '../utils/formatting';
+
+export type OutputContainer = 'jpeg' | 'heic' | 'png' | 'dng';
+
+export type OutputSettings = {
+  container: OutputContainer;
+  // JPEG and HEIC only; null keeps the camera's own encoding where possible.
+  quality: number | null;
+  // In bytes; JPEG quality is lowered until the photo fits.
+  maxFileSize: number | null;
+  thumbnail: boolean;
+};
+
+export type OutputProfile = {
+  id: string;
+  name: string;
+  settings: OutputSettings;
+};
+
+export type ContainerSupport = { [container in OutputContainer]: boolean };
+
+export const OUTPUT_CONTAINERS: OutputContainer[] = [
+  'jpeg',
+  'heic',
+  'png',
+  'dng',
+];
+export const OUTPUT_QUALITIES: (number | null)[] = [
+  null,
+  0.95,
+  0.9,
+  0.8,
+  0.7,
+  0.5,
+];
+export const MAX_FILE_SIZES: (number | null)[] = [
+  null,
+  500 * 1024,
+  1024 * 1024,
+  2 * 1024 * 1024,
+  5 * 1024 * 1024,
+];
+
+// Quality used when a photo has to be re-encoded and the profile keeps the camera's.
+export const DEFAULT_ENCODE_QUALITY = 0.95;
+export const MIN_SEARCH_QUALITY = 0.3;
+export const MAX_SEARCH_ATTEMPTS = 6;
+const QUALITY_PRECISION = 0.05;
+
+export const THUMBNAIL_LONG_SIDE = 320;
+export const THUMBNAIL_QUALITY = 0.8;
+
+const CONTAINER_LABELS: { [container in OutputContainer]: string } = {
+  jpeg: 'JPEG',
+  heic: 'HEIC',
+  png: 'PNG',
+  dng: 'DNG',
+};
+
+export const getContainerLabel = (container: OutputContainer) =>
+  CONTAINER_LABELS[container];
+
+export const DEFAULT_OUTPUT_PROFILES: OutputProfile[] = [
+  {
+    id: 'default',
+    name: 'Default',
+    settings: {
+      container: 'jpeg',
+      quality: null,
+      maxFileSize: null,
+      thumbnail: false,
+    },
+  },
+  {
+    id: 'upload',
+    name: 'Upload',
+    settings: {
+      container: 'jpeg',
+      quality: 0.9,
+      maxFileSize: 1024 * 1024,
+      thumbnail: true,
+    },
+  },
+  {
+    id: 'archive',
+    name: 'Archive',
+    settings: {
+      container: 'png',
+      quality: null,
+      maxFileSize: null,
+      thumbnail: true,
+    },
+  },
+];
+
+export const usesQuality = (container: OutputContainer) =>
+  container === 'jpeg' || container === 'heic';
+
+// Only JPEG is re-encoded at a chosen quality, so only JPEG can be sized down.
+export const supportsMaxFileSize = (container: OutputContainer) =>
+  container === 'jpeg';
+
+/**
+ * Which containers the pipeline can deliver. JPEG and PNG are encoded by the
+ * image editor; HEIC and DNG are only kept when the camera wrote them, which
+ * needs an iOS device for HEIC and a RAW-capable camera for DNG.
+ */
+export const getContainerSupport = (
+  device: CameraDevice,
+  platform: string,
+): ContainerSupport => ({
+  jpeg: true,
+  png: true,
+  heic: platform === 'ios',
+  dng: device.supportsRawCapture,
+});
+
+// Settings chosen for another camera may ask for a container this one lacks.
+export const getEffectiveOutputSettings = (
+  settings: OutputSettings,
+  support: ContainerSupport,
+): OutputSettings =>
+  support[settings.container] ? settings : { ...settings, container: 'jpeg' };
+
+/**
+ * The container a captured photo ends up in. HEIC and DNG cannot be encoded
+ * here, so a photo the camera did not deliver that way falls back to JPEG.
+ */
+export const resolveOutputContainer = (
+  requested: OutputContainer,
+  captured: { isRawPhoto: boolean; isHeic: boolean },
+): { container: OutputContainer; warning?: string } => {
+  if (requested === 'dng' && !captured.isRawPhoto) {
+    return {
+      container: 'jpeg',
+      warning:
+        'The camera did not deliver a RAW photo, so it was saved as JPEG.',
+    };
+  }
+  if (requested === 'heic' && !captured.isHeic) {
+    return {
+      container: 'jpeg',
+      warning:
+        'The camera did not deliver a HEIC photo, so it was saved as JPEG.',
+    };
+  }
+  return { container: requested };
+};
+
+export const describeOutputFormat = (
+  container: OutputContainer,
+  quality?: number | null,
+) =>
+  usesQuality(container) && quality != null
+    ? `${CONTAINER_LABELS[container]} ${Math.round(quality * 100)}%`
+    : CONTAINER_LABELS[container];
+
+export const describeOutputSettings = (settings: OutputSettings) => {
+  const parts = [describeOutputFormat(settings.container, settings.quality)];
+  if (settings.maxFileSize != null && supportsMaxFileSize(settings.container)) {
+    parts.push(`≤${formatFileSize(settings.maxFileSize)}`);
+  }
+  if (settings.thumbnail) {
+    parts.push('+ thumbnail');
+  }
+  return parts.join(' ');
+};
+
+export const getThumbnailSize = (
+  size: Resolution,
+  longSide = THUMBNAIL_LONG_SIDE,
+): Resolution => {
+  const scale = Math.min(1, longSide / Math.max(size.width, size.height));
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+};
+
+export type QualitySearch<T> = {
+  result: T;
+  quality: number;
+  fits: boolean;
+  attempts: number;
+};
+
+/**
+ * Binary-searches the highest quality whose encoding fits in `maxBytes`,
+ * starting at `maxQuality`. If even MIN_SEARCH_QUALITY is too large, the
+ * smallest encoding is returned with `fits: false`. Every other encoding is
+ * handed to `discard`.
+ */
+export const searchQualityForSize = async <T extends { size: number }>(
+  encode: (quality: number) => Promise<T>,
+  maxBytes: number,
+  maxQuality: number,
+  discard: (result: T) => void = () => {},
+): Promise<QualitySearch<T>> => {
+  const tried: { quality: number; result: T }[] = [];
+  const attempt = async (quality: number) => {
+    const result = await encode(quality);
+    tried.push({ quality, result });
+    return result.size <= maxBytes;
+  };
+
+  if (
+    !(await attempt(maxQuality)) &&
+    maxQuality > MIN_SEARCH_QUALITY &&
+    (await attempt(MIN_SEARCH_QUALITY))
+  ) {
+    let low = MIN_SEARCH_QUALITY;
+    let high = maxQuality;
+    while (
+      tried.length < MAX_SEARCH_ATTEMPTS &&
+      high - low > QUALITY_PRECISION
+    ) {
+      const quality = Math.round(((low + high) / 2) * 100) / 100;
+      if (await attempt(quality)) {
+        low = quality;
+      } else {
+        high = quality;
+      }
+    }
+  }
+
+  const fitting = tried
+    .filter(({ result }) => result.size <= maxBytes)
+    .sort((a, b) => b.quality - a.quality);
+  const chosen =
+    fitting[0] ?? [...tried].sort((a, b) => a.result.size - b.result.size)[0];
+  tried
+    .filter(entry => entry !== chosen)
+    .forEach(entry => discard(entry.result));
+  return {
+    result: chosen.result,
+    quality: chosen.quality,
+    fits: chosen.result.size <= maxBytes,
+    attempts: tried.length,
+  };
+};
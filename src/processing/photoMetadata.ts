@@ -0,0 +1,254 @@
+import piexif from 'piexifjs';
+import { getExifRotation, getStoredSize } from '../camera/orientation';
+import { Resolution } from '../utils/resolution';
+
+// The subset of a photo's EXIF shown in the details view.
+export type PhotoExif = {
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  focalLength35mm?: number;
+  lens?: string;
+  make?: string;
+  model?: string;
+  orientation?: number;
+  takenAt?: string;
+  flashFired?: boolean;
+};
+
+// Our own fields, written into every saved photo.
+export type MetadataStamp = {
+  requestedResolution: string | null;
+  cameraLabel: string;
+  zoom: string;
+  appVersion: string;
+  operatorTag?: string;
+};
+
+export type MetadataRow = { label: string; value: string };
+
+type MetadataDictionary = { [key: string]: unknown };
+
+const ORIENTATION_LABELS: { [orientation: number]: string } = {
+  1: 'Upright',
+  2: 'Mirrored',
+  3: 'Rotated 180°',
+  4: 'Rotated 180°, mirrored',
+  5: 'Rotated 90° CW, mirrored',
+  6: 'Rotated 90° CW',
+  7: 'Rotated 90° CCW, mirrored',
+  8: 'Rotated 90° CCW',
+};
+
+// Android reports EXIF values as strings, rationals included ("1/120").
+const toNumber = (value: unknown): number | undefined => {
+  if (Array.isArray(value)) {
+    return toNumber(value[0]);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const [numerator, denominator] = value.split('/').map(Number);
+  const parsed = denominator != null ? numerator / denominator : numerator;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+const getDictionary = (
+  metadata: MetadataDictionary,
+  key: string,
+): MetadataDictionary => {
+  const value = metadata[key];
+  return value != null && typeof value === 'object'
+    ? (value as MetadataDictionary)
+    : {};
+};
+
+/** Reads the fields we display from `PhotoFile.metadata`. */
+export const parsePhotoMetadata = (
+  metadata: MetadataDictionary | undefined,
+): PhotoExif => {
+  if (!metadata) {
+    return {};
+  }
+  const exif = getDictionary(metadata, '{Exif}');
+  const tiff = getDictionary(metadata, '{TIFF}');
+  const flash = toNumber(exif.Flash);
+  const takenAt = toText(exif.DateTimeOriginal) ?? toText(tiff.DateTime);
+  const offset = toText(exif.OffsetTimeOriginal);
+  return {
+    exposureTime: toNumber(exif.ExposureTime),
+    fNumber: toNumber(exif.FNumber),
+    iso: toNumber(exif.ISOSpeedRatings),
+    focalLength: toNumber(exif.FocalLength),
+    focalLength35mm: toNumber(exif.FocalLenIn35mmFilm),
+    lens: toText(exif.LensModel),
+    make: toText(tiff.Make),
+    model: toText(tiff.Model),
+    orientation: toNumber(metadata.Orientation),
+    takenAt: takenAt && offset ? `${takenAt} ${offset}` : takenAt,
+    // Odd EXIF flash values (bit 0 set) mean the flash fired.
+    flashFired: flash != null ? flash % 2 === 1 : undefined,
+  };
+};
+
+export const formatExposureTime = (seconds: number) =>
+  seconds >= 1 || seconds <= 0
+    ? `${Number(seconds.toFixed(1))} s`
+    : `1/${Math.round(1 / seconds)} s`;
+
+export const describePhotoExif = (exif: PhotoExif): MetadataRow[] => {
+  const rows: MetadataRow[] = [];
+  const add = (label: string, value: string | undefined) => {
+    if (value) {
+      rows.push({ label, value });
+    }
+  };
+  add(
+    'Exposure',
+    exif.exposureTime != null
+      ? formatExposureTime(exif.exposureTime)
+      : undefined,
+  );
+  add('Aperture', exif.fNumber != null ? `f/${exif.fNumber}` : undefined);
+  add('ISO', exif.iso != null ? `${exif.iso}` : undefined);
+  if (exif.focalLength != null) {
+    const equivalent = exif.focalLength35mm
+      ? ` (${exif.focalLength35mm} mm equiv.)`
+      : '';
+    add(
+      'Focal length',
+      `${Number(exif.focalLength.toFixed(2))} mm${equivalent}`,
+    );
+  }
+  add('Lens', exif.lens);
+  add('Camera', [exif.make, exif.model].filter(Boolean).join(' '));
+  add(
+    'Orientation',
+    exif.orientation != null
+      ? ORIENTATION_LABELS[exif.orientation] ?? `${exif.orientation}`
+      : undefined,
+  );
+  add('Taken', exif.takenAt);
+  add(
+    'Flash',
+    exif.flashFired != null ? (exif.flashFired ? 'Fired' : 'Off') : undefined,
+  );
+  return rows;
+};
+
+export const describeMetadataStamp = (stamp: MetadataStamp): MetadataRow[] =>
+  [
+    { label: 'Requested', value: stamp.requestedResolution ?? 'Default' },
+    { label: 'Camera', value: stamp.cameraLabel },
+    { label: 'Zoom', value: stamp.zoom },
+    { label: 'App version', value: stamp.appVersion },
+    { label: 'Operator', value: stamp.operatorTag ?? '' },
+  ].filter(row => row.value !== '');
+
+// EXIF ASCII fields cannot hold camera labels like "Wide (84°)" as-is, so
+// everything outside printable ASCII is written as a JSON escape.
+export const encodeMetadataStamp = (stamp: MetadataStamp) =>
+  JSON.stringify(stamp).replace(
+    /[^\x20-\x7e]/g,
+    char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+
+const toAscii = (text: string) => text.replace(/[^\x20-\x7e]/g, '?');
+
+const formatExifDate = (date: Date) => {
+  const pad = (value: number) => `${value}`.padStart(2, '0');
+  const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds()];
+  return `${day.map(pad).join(':')} ${time.map(pad).join(':')}`;
+};
+
+// The EXIF payload ("Exif\0\0" and its TIFF data) of the APP1 segment among
+// the segments ahead of the image data, or null when there is none.
+const findExifPayload = (jpeg: string) => {
+  let head = 2;
+  while (jpeg.charCodeAt(head) === 0xff && head + 4 <= jpeg.length) {
+    const marker = jpeg.charCodeAt(head + 1);
+    const length = jpeg.charCodeAt(head + 2) * 256 + jpeg.charCodeAt(head + 3);
+    const payload = jpeg.slice(head + 4, head + 2 + length);
+    if (marker === 0xe1 && payload.startsWith('Exif\0\0')) {
+      return payload;
+    }
+    if (marker === 0xda) {
+      break;
+    }
+    head += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * The EXIF orientation of a JPEG given as a binary string, if it has one. The
+ * string may stop anywhere after the EXIF segment, such as a header read.
+ */
+export const getJpegOrientation = (jpeg: string): number | undefined => {
+  const exif = jpeg.startsWith('\xff\xd8') ? findExifPayload(jpeg) : null;
+  if (!exif) {
+    return undefined;
+  }
+  try {
+    const orientation = piexif.load(exif)['0th']?.[piexif.ImageIFD.Orientation];
+    return typeof orientation === 'number' ? orientation : undefined;
+  } catch (e) {
+    console.warn('Could not read the EXIF orientation', e);
+    return undefined;
+  }
+};
+
+/**
+ * Writes `stamp` into a JPEG given as a binary string. When the photo was
+ * cropped, the camera EXIF is carried over from `cropped.originalJpeg`, minus
+ * the thumbnail, and with the rotation flag the cropped pixels still need
+ * (none unless `cropped.exifOrientation` says otherwise).
+ */
+export const applyMetadataStamp = (
+  jpeg: string,
+  stamp: MetadataStamp,
+  cropped?: {
+    originalJpeg: string;
+    outputSize: Resolution;
+    exifOrientation?: number;
+  },
+) => {
+  const exif: piexif.ExifDict = piexif.load(
+    cropped ? cropped.originalJpeg : jpeg,
+  );
+  const zeroth = exif['0th'] ?? {};
+  const exifIfd = exif.Exif ?? {};
+
+  if (cropped) {
+    exif['1st'] = {};
+    exif.thumbnail = undefined;
+    const orientation = cropped.exifOrientation ?? 1;
+    const stored = getStoredSize(
+      cropped.outputSize,
+      getExifRotation(orientation),
+    );
+    zeroth[piexif.ImageIFD.Orientation] = orientation;
+    exifIfd[piexif.ExifIFD.PixelXDimension] = stored.width;
+    exifIfd[piexif.ExifIFD.PixelYDimension] = stored.height;
+  }
+  zeroth[piexif.ImageIFD.ImageDescription] = encodeMetadataStamp(stamp);
+  zeroth[piexif.ImageIFD.Software] = `VisionCameraApp ${stamp.appVersion}`;
+  if (stamp.operatorTag) {
+    zeroth[piexif.ImageIFD.Artist] = toAscii(stamp.operatorTag);
+  }
+  if (zeroth[piexif.ImageIFD.DateTime] == null) {
+    zeroth[piexif.ImageIFD.DateTime] = formatExifDate(new Date());
+  }
+  exif['0th'] = zeroth;
+  exif.Exif = exifIfd;
+
+  return piexif.insert(piexif.dump(exif), jpeg);
+};
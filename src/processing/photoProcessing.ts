@@ -0,0 +1,297 @@
+import ImageEditor from '@react-native-community/image-editor';
+import { Platform } from 'react-native';
+import RNFS from 'react-native-fs';
+import { PhotoFile } from 'react-native-vision-camera';
+import {
+  getExifRotation,
+  getStoredSize,
+  toExifOrientation,
+} from '../camera/orientation';
+import { readPhotoOrientation } from './metadataStamping';
+import {
+  DEFAULT_ENCODE_QUALITY,
+  OutputContainer,
+  OutputSettings,
+  THUMBNAIL_QUALITY,
+  getContainerLabel,
+  getThumbnailSize,
+  resolveOutputContainer,
+  searchQualityForSize,
+  supportsMaxFileSize,
+} from './outputSettings';
+import { formatFileSize } from '../utils/formatting';
+import { Resolution } from '../utils/resolution';
+
+export type CropRect = { x: number; y: number; width: number; height: number };
+
+export type ProcessedPhoto = {
+  path: string;
+  width: number;
+  height: number;
+  size?: number;
+  processed: boolean;
+  container: OutputContainer;
+  // The re-encoding quality, when the photo was re-encoded as JPEG.
+  quality?: number;
+  // EXIF orientation of the written pixels; width and height are upright.
+  exifOrientation?: number;
+  thumbnailPath?: string;
+  warning?: string;
+};
+
+const toFileUri = (path: string) =>
+  path.startsWith('file://') ? path : `file://${path}`;
+
+/**
+ * Clockwise turn that displays the photo's stored pixels upright. iOS reports
+ * the EXIF orientation in `metadata`; Android leaves that empty and its
+ * `orientation` is the device rotation, not the one the pixels need, so the
+ * file's own EXIF is read instead.
+ */
+export const readPhotoRotation = async (photo: PhotoFile) => {
+  const exifOrientation =
+    photo.metadata?.Orientation ?? (await readPhotoOrientation(photo.path));
+  return getExifRotation(exifOrientation ?? 1);
+};
+
+export const getUprightSize = (photo: PhotoFile, rotation: number) =>
+  getStoredSize({ width: photo.width, height: photo.height }, rotation);
+
+// The Android editor crops the stored pixels and copies the EXIF rotation
+// onto its output; the iOS one draws the crop upright.
+const EDITOR_KEEPS_SENSOR_LAYOUT = Platform.OS === 'android';
+
+export const computeCenterCrop = (
+  source: Resolution,
+  aspectRatio: number,
+): CropRect => {
+  const sourceAspectRatio = source.width / source.height;
+  let width = source.width;
+  let height = source.height;
+
+  if (sourceAspectRatio > aspectRatio) {
+    width = Math.round(source.height * aspectRatio);
+  } else if (sourceAspectRatio < aspectRatio) {
+    height = Math.round(source.width / aspectRatio);
+  }
+
+  return {
+    x: Math.floor((source.width - width) / 2),
+    y: Math.floor((source.height - height) / 2),
+    width,
+    height,
+  };
+};
+
+const HEIC_PATH = /\.hei[cf]$/i;
+
+const getCapturedContainer = (photo: PhotoFile): OutputContainer => {
+  if (photo.isRawPhoto) {
+    return 'dng';
+  }
+  return HEIC_PATH.test(photo.path) ? 'heic' : 'jpeg';
+};
+
+const getFileSize = async (path: string) => {
+  try {
+    return (await RNFS.stat(path.replace(/^file:\/\//, ''))).size;
+  } catch (e) {
+    console.warn('Could not read photo size', e);
+    return undefined;
+  }
+};
+
+const deleteTemporaryFile = (path: string) =>
+  RNFS.unlink(path.replace(/^file:\/\//, '')).catch(e =>
+    console.warn('Could not delete temporary photo', e),
+  );
+
+const createThumbnail = async (photo: PhotoFile, upright: Resolution) => {
+  const result = await ImageEditor.cropImage(toFileUri(photo.path), {
+    offset: { x: 0, y: 0 },
+    size: upright,
+    displaySize: getThumbnailSize(upright),
+    resizeMode: 'contain',
+    format: 'jpeg',
+    quality: THUMBNAIL_QUALITY,
+  });
+  return result.path;
+};
+
+/**
+ * Turns a captured photo into the file we keep: cropped to `targetResolution`
+ * (null keeps the captured size) and written in the container, quality and
+ * size limit of `output`, with an optional thumbnail alongside.
+ */
+export const processPhoto = async (
+  photo: PhotoFile,
+  targetResolution: Resolution | null,
+  output: OutputSettings,
+): Promise<ProcessedPhoto> => {
+  const rotation = await readPhotoRotation(photo);
+  const upright = getUprightSize(photo, rotation);
+  const captured = getCapturedContainer(photo);
+  const { container, warning: containerWarning } = resolveOutputContainer(
+    output.container,
+    { isRawPhoto: photo.isRawPhoto, isHeic: captured === 'heic' },
+  );
+  const warnings = containerWarning ? [containerWarning] : [];
+
+  const result = await encodePhoto(
+    photo,
+    rotation,
+    upright,
+    targetResolution ?? upright,
+    { ...output, container },
+    warnings,
+  );
+  if (output.thumbnail) {
+    try {
+      result.thumbnailPath = await createThumbnail(photo, upright);
+    } catch (e: any) {
+      console.warn('Failed to create thumbnail', e);
+      warnings.push(`No thumbnail was created: ${e.message}`);
+    }
+  }
+  return {
+    ...result,
+    warning: warnings.length > 0 ? warnings.join('\n') : undefined,
+  };
+};
+
+const encodePhoto = async (
+  photo: PhotoFile,
+  photoRotation: number,
+  upright: Resolution,
+  targetResolution: Resolution,
+  output: OutputSettings,
+  warnings: string[],
+): Promise<ProcessedPhoto> => {
+  const captured = getCapturedContainer(photo);
+  const original = async (): Promise<ProcessedPhoto> => ({
+    ...upright,
+    path: photo.path,
+    size: await getFileSize(photo.path),
+    processed: false,
+    container: captured,
+  });
+  const isNativeSize =
+    upright.width === targetResolution.width &&
+    upright.height === targetResolution.height;
+
+  if (output.container === 'heic' || output.container === 'dng') {
+    // Neither can be encoded here, so the camera's file is kept as it is.
+    if (!isNativeSize) {
+      warnings.push(
+        `${getContainerLabel(
+          output.container,
+        )} photos cannot be cropped here, so the photo was kept at ${
+          upright.width
+        }x${upright.height}.`,
+      );
+    }
+    return original();
+  }
+  if (
+    isNativeSize &&
+    output.container === captured &&
+    output.quality == null &&
+    output.maxFileSize == null
+  ) {
+    // A native size from the catalog: the sensor output is already the target.
+    return original();
+  }
+
+  // Crop to the target's own ratio rather than the group's nominal one, so
+  // near-ratio native sizes such as 4080x3072 under "4:3" are not shaved.
+  const crop = computeCenterCrop(
+    upright,
+    targetResolution.width / targetResolution.height,
+  );
+
+  if (
+    crop.width < targetResolution.width ||
+    crop.height < targetResolution.height
+  ) {
+    const target = `${targetResolution.width}x${targetResolution.height}`;
+    const cropped = `${crop.width}x${crop.height}`;
+    warnings.push(
+      `Cannot produce ${target} because the cropped original photo (${cropped}) is smaller. The original photo will be used.`,
+    );
+    return original();
+  }
+
+  // Both editors take the crop rect in upright coordinates.
+  const rotation = EDITOR_KEEPS_SENSOR_LAYOUT ? photoRotation : 0;
+  const expected = getStoredSize(targetResolution, rotation);
+  // The Android editor writes the stored pixels and only carries the rotation
+  // flag over for JPEG, so a PNG of a rotated photo would come out sideways.
+  const container =
+    output.container === 'png' && rotation !== 0 ? 'jpeg' : output.container;
+  if (container !== output.container) {
+    warnings.push(
+      'PNG cannot record the rotation this photo needs, so it was saved as JPEG.',
+    );
+  }
+  const format = container === 'png' ? 'png' : 'jpeg';
+  const encode = async (quality: number) => {
+    const encoded = await ImageEditor.cropImage(toFileUri(photo.path), {
+      offset: { x: crop.x, y: crop.y },
+      size: { width: crop.width, height: crop.height },
+      displaySize: {
+        width: targetResolution.width,
+        height: targetResolution.height,
+      },
+      resizeMode: 'cover',
+      format,
+      quality,
+    });
+    if (
+      encoded.width !== expected.width ||
+      encoded.height !== expected.height
+    ) {
+      throw new Error(
+        `Processed photo is ${encoded.width}x${encoded.height}, expected ${expected.width}x${expected.height}.`,
+      );
+    }
+    return encoded;
+  };
+
+  const quality = output.quality ?? DEFAULT_ENCODE_QUALITY;
+  let result;
+  let usedQuality: number | undefined = quality;
+  if (output.maxFileSize != null && supportsMaxFileSize(container)) {
+    const search = await searchQualityForSize(
+      encode,
+      output.maxFileSize,
+      quality,
+      rejected => deleteTemporaryFile(rejected.path),
+    );
+    if (!search.fits) {
+      warnings.push(
+        `Could not get the photo under ${formatFileSize(
+          output.maxFileSize,
+        )}; the smallest version is ${formatFileSize(search.result.size)}.`,
+      );
+    }
+    result = search.result;
+    usedQuality = search.quality;
+  } else {
+    result = await encode(quality);
+  }
+  if (format === 'png') {
+    usedQuality = undefined;
+  }
+
+  return {
+    path: result.path,
+    width: targetResolution.width,
+    height: targetResolution.height,
+    size: result.size,
+    processed: true,
+    container,
+    quality: usedQuality,
+    exifOrientation:
+      format === 'jpeg' ? toExifOrientation(rotation) : undefined,
+  };
+};
@@ -0,0 +1,28 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type CameraSettings = {
+  deviceId: string;
+  deviceName: string;
+  aspectRatioKey: string | null;
+  resolution: string | null;
+  zoom: number;
+};
+
+const STORAGE_KEY = '@VisionCameraApp/cameraSettings';
+
+export const loadCameraSettings = async (): Promise<CameraSettings | null> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return null;
+  }
+  try {
+    const settings = JSON.parse(stored);
+    return typeof settings?.deviceId === 'string' ? settings : null;
+  } catch (e) {
+    console.warn('Discarding unreadable camera settings', e);
+    return null;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
@@ -0,0 +1,26 @@
+import RNFS from 'react-native-fs';
+import {
+  CapabilityReport,
+  capabilityReportToCsv,
+} from '../camera/capabilityReport';
+
+export const REPORTS_DIRECTORY = `${RNFS.DocumentDirectoryPath}/reports`;
+
+export type WrittenCapabilityReport = {
+  jsonPath: string;
+  csvPath: string;
+};
+
+export const writeCapabilityReport = async (
+  report: CapabilityReport,
+): Promise<WrittenCapabilityReport> => {
+  await RNFS.mkdir(REPORTS_DIRECTORY);
+  const { platform, generatedAt } = report.environment;
+  const stamp = generatedAt.replace(/[:.]/g, '-');
+  const baseName = `capabilities-${platform}-${stamp}`;
+  const jsonPath = `${REPORTS_DIRECTORY}/${baseName}.json`;
+  const csvPath = `${REPORTS_DIRECTORY}/${baseName}.csv`;
+  await RNFS.writeFile(jsonPath, JSON.stringify(report, null, 2), 'utf8');
+  await RNFS.writeFile(csvPath, capabilityReportToCsv(report), 'utf8');
+  return { jsonPath, csvPath };
+};
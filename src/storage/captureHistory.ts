@@ -0,0 +1,81 @@
+import RNFS from 'react-native-fs';
+import { OutputContainer } from '../processing/outputSettings';
+import { MetadataStamp, PhotoExif } from '../processing/photoMetadata';
+import { createPersistedList } from './persistedList';
+
+export type CaptureKind = 'photo' | 'video';
+
+export type CaptureRecord = {
+  id: string;
+  kind: CaptureKind;
+  path: string;
+  requestedResolution: string | null;
+  actualResolution: string;
+  cameraName: string;
+  deviceId: string;
+  zoom: number;
+  timestamp: number;
+  fileSize?: number;
+  durationSeconds?: number;
+  // Photos only: EXIF read at capture time and the fields we stamped.
+  exif?: PhotoExif;
+  stamp?: MetadataStamp;
+  // Photos only: how the output profile wrote the file.
+  container?: OutputContainer;
+  quality?: number;
+  thumbnailPath?: string;
+  // Lens sets: the photos taken with each lens in one action share a groupId.
+  groupId?: string;
+  lensLabel?: string;
+  fieldOfView?: number;
+};
+
+const STORAGE_KEY = '@VisionCameraApp/captureHistory';
+export const CAPTURES_DIRECTORY = `${RNFS.DocumentDirectoryPath}/captures`;
+
+// The iOS app container moves on updates and reinstalls, so records store
+// file names and are resolved against the current captures directory.
+// Older records stored absolute paths; only their file name is kept.
+const toFileName = (path: string) => path.split('/').pop() ?? path;
+const toCapturePath = (fileName: string) =>
+  `${CAPTURES_DIRECTORY}/${toFileName(fileName)}`;
+
+const resolveRecord = (record: CaptureRecord): CaptureRecord => ({
+  ...record,
+  path: toCapturePath(record.path),
+  thumbnailPath: record.thumbnailPath
+    ? toCapturePath(record.thumbnailPath)
+    : undefined,
+});
+
+const toStoredRecord = (record: CaptureRecord): CaptureRecord => ({
+  ...record,
+  path: toFileName(record.path),
+  thumbnailPath: record.thumbnailPath
+    ? toFileName(record.thumbnailPath)
+    : undefined,
+});
+
+export const createCaptureId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const captureHistory = createPersistedList<CaptureRecord>(
+  STORAGE_KEY,
+  'capture history',
+  { fromStored: resolveRecord, toStored: toStoredRecord },
+);
+
+// Captures start out in the cache directory, which the OS may clear at any time.
+export const persistCaptureFile = async (sourcePath: string, id: string) => {
+  await RNFS.mkdir(CAPTURES_DIRECTORY);
+  const extension = sourcePath.split('.').pop() ?? 'jpg';
+  const destination = `${CAPTURES_DIRECTORY}/${id}.${extension}`;
+  await RNFS.copyFile(sourcePath.replace(/^file:\/\//, ''), destination);
+  return destination;
+};
+
+export const deleteCaptureFile = async (path: string) => {
+  if (await RNFS.exists(path)) {
+    await RNFS.unlink(path);
+  }
+};
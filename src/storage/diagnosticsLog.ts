@@ -0,0 +1,27 @@
+import RNFS from 'react-native-fs';
+import { DiagnosticsEntry, formatDiagnosticsLog } from '../utils/diagnostics';
+import { REPORTS_DIRECTORY } from './capabilityReportFiles';
+import { createPersistedList } from './persistedList';
+
+const STORAGE_KEY = '@VisionCameraApp/diagnosticsLog';
+
+export const diagnosticsLog = createPersistedList<DiagnosticsEntry>(
+  STORAGE_KEY,
+  'diagnostics log',
+);
+
+/** Writes the log as plain text next to the capability reports. */
+export const writeDiagnosticsLog = async (
+  entries: DiagnosticsEntry[],
+  header: string,
+): Promise<string> => {
+  await RNFS.mkdir(REPORTS_DIRECTORY);
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const path = `${REPORTS_DIRECTORY}/diagnostics-${stamp}.txt`;
+  await RNFS.writeFile(
+    path,
+    `${header}\n\n${formatDiagnosticsLog(entries)}\n`,
+    'utf8',
+  );
+  return path;
+};
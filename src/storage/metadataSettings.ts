@@ -0,0 +1,11 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const OPERATOR_TAG_KEY = '@VisionCameraApp/operatorTag';
+
+export const loadOperatorTag = async () =>
+  (await AsyncStorage.getItem(OPERATOR_TAG_KEY)) ?? '';
+
+export const saveOperatorTag = (tag: string) =>
+  tag
+    ? AsyncStorage.setItem(OPERATOR_TAG_KEY, tag)
+    : AsyncStorage.removeItem(OPERATOR_TAG_KEY);
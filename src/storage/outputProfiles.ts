@@ -0,0 +1,36 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_OUTPUT_PROFILES,
+  OutputProfile,
+} from '../processing/outputSettings';
+
+export type StoredOutputProfiles = {
+  profiles: OutputProfile[];
+  activeProfileId: string;
+};
+
+const STORAGE_KEY = '@VisionCameraApp/outputProfiles';
+
+export const DEFAULT_STORED_OUTPUT_PROFILES: StoredOutputProfiles = {
+  profiles: DEFAULT_OUTPUT_PROFILES,
+  activeProfileId: DEFAULT_OUTPUT_PROFILES[0].id,
+};
+
+export const loadOutputProfiles = async (): Promise<StoredOutputProfiles> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!stored) {
+    return DEFAULT_STORED_OUTPUT_PROFILES;
+  }
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed?.profiles) && parsed.profiles.length > 0
+      ? parsed
+      : DEFAULT_STORED_OUTPUT_PROFILES;
+  } catch (e) {
+    console.warn('Discarding unreadable output profiles', e);
+    return DEFAULT_STORED_OUTPUT_PROFILES;
+  }
+};
+
+export const saveOutputProfiles = (stored: StoredOutputProfiles) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
@@ -0,0 +1,39 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type PersistedList<T> = {
+  // Used in log messages, e.g. "capture history".
+  name: string;
+  load: () => Promise<T[]>;
+  save: (items: T[]) => Promise<void>;
+};
+
+type Conversions<T> = {
+  fromStored?: (item: T) => T;
+  toStored?: (item: T) => T;
+};
+
+/**
+ * A list kept as a JSON array under `key`. Items pass through `fromStored` on
+ * load and `toStored` on save; an unreadable value is discarded as empty.
+ */
+export const createPersistedList = <T>(
+  key: string,
+  name: string,
+  { fromStored = item => item, toStored = item => item }: Conversions<T> = {},
+): PersistedList<T> => ({
+  name,
+  load: async () => {
+    const stored = await AsyncStorage.getItem(key);
+    if (!stored) {
+      return [];
+    }
+    try {
+      const items = JSON.parse(stored);
+      return Array.isArray(items) ? items.map(fromStored) : [];
+    } catch (e) {
+      console.warn(`Discarding unreadable ${name}`, e);
+      return [];
+    }
+  },
+  save: items => AsyncStorage.setItem(key, JSON.stringify(items.map(toStored))),
+});
@@ -0,0 +1,17 @@
+import { createPersistedList } from './persistedList';
+
+export type ScanRecord = {
+  id: string;
+  type: string;
+  value: string;
+  cameraName: string;
+  timestamp: number;
+};
+
+const STORAGE_KEY = '@VisionCameraApp/scanHistory';
+export const MAX_SCAN_HISTORY = 500;
+
+export const scanHistory = createPersistedList<ScanRecord>(
+  STORAGE_KEY,
+  'scan history',
+);
@@ -0,0 +1,40 @@
+import { CameraFormat } from '../camera/types';
+
+export type DiagnosticsLevel = 'info' | 'warning' | 'error';
+
+export type DiagnosticsEntry = {
+  timestamp: number;
+  level: DiagnosticsLevel;
+  // vision-camera error code, or an event name like 'session/initialized'.
+  code: string;
+  message: string;
+  deviceId: string | null;
+  format: string | null;
+};
+
+export const MAX_DIAGNOSTICS_ENTRIES = 200;
+
+export const describeFormat = (format: CameraFormat | null | undefined) =>
+  format
+    ? `photo ${format.photoWidth}x${format.photoHeight}, video ${format.videoWidth}x${format.videoHeight} @ ${format.minFps}-${format.maxFps} fps`
+    : null;
+
+/** Adds `entry` to the front of the log, dropping the oldest entries past the limit. */
+export const appendDiagnostic = (
+  entries: DiagnosticsEntry[],
+  entry: DiagnosticsEntry,
+) => [entry, ...entries].slice(0, MAX_DIAGNOSTICS_ENTRIES);
+
+export const formatDiagnosticsEntry = (entry: DiagnosticsEntry) =>
+  [
+    new Date(entry.timestamp).toISOString(),
+    entry.level.toUpperCase(),
+    entry.code,
+    entry.deviceId ?? '-',
+    entry.format ?? '-',
+    entry.message,
+  ].join(' | ');
+
+// Oldest first, which reads more naturally in an exported file.
+export const formatDiagnosticsLog = (entries: DiagnosticsEntry[]) =>
+  [...entries].reverse().map(formatDiagnosticsEntry).join('\n');
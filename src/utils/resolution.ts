@@ -0,0 +1,20 @@
+export type Resolution = { width: number; height: number };
+
+export const parseResolutionString = (res: string): Resolution => {
+  const [width, height] = res.split('x').map(Number);
+  return { width, height };
+};
+
+export const formatResolution = (res: Resolution) =>
+  `${res.width}x${res.height}`;
+
+// Ratio keys look like '4x3 Landscape (4:3)'; the value in brackets is width:height.
+export const parseAspectRatioKey = (ratioKey: string): number | null => {
+  const match = ratioKey.match(/\((\d+):(\d+)\)/);
+  if (!match) {
+    return null;
+  }
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? width / height : null;
+};